@@ -1,7 +1,17 @@
 import hljs from 'highlight.js/lib/core';
 import { parseCode } from './parse';
-import { Theme, ThemeRegistry } from './regitery';
+import { getTheme, Theme } from './regitery';
 import type { LanguageFn } from 'highlight.js';
+import { bgHex, ColorFn } from '../cols/colorPack';
+import { ChalkStyleKeys } from '../cols/colorPolify';
+import { escapePseudoLang, writePseudoColorLang } from '../lang/pseudoLang';
+import {
+	padStyled,
+	splitStyledLines,
+	truncateStyled,
+	wrapLines,
+} from '../utils/styledText';
+import { visibleWidth } from '../utils/visibleText';
 
 /**
  * Renders code content based on the specified language, theme, and rendering mode.
@@ -37,16 +47,120 @@ import type { LanguageFn } from 'highlight.js';
  *
  * ```
  */
-function renderCode(param: { lang: string; content: string; theme?: Theme }) {
+function renderCode(param: CodeParam) {
 	const themeKey = param.theme || 'githubDark';
+	const detected =
+		param.lang === 'auto' ? detectLang(param.content) : param.lang;
+	// Unknown languages fall back to plain text
+	const lang =
+		detected !== undefined && hljs.getLanguage(detected) ? detected : undefined;
+	param.onLanguage?.(lang);
 
-	const pseudoLang = parseCode(
-		param.lang,
-		param.content,
-		ThemeRegistry[themeKey],
-	);
+	const pseudoLang =
+		lang !== undefined
+			? parseCode(lang, param.content, getTheme(themeKey))
+			: escapePseudoLang(param.content);
 
-	return pseudoLang;
+	return decorateCode(pseudoLang, param);
+}
+
+const defaultHighlight = bgHex('#373e47');
+
+const markerSymbols: Record<CodeMarker, [string, ChalkStyleKeys]> = {
+	error: ['✖', 'red'],
+	warn: ['▲', 'yellow'],
+	info: ['●', 'blue'],
+};
+
+/**
+ * Adds the gutter, highlighted lines, title and width handling of
+ * `CodeParam` around highlighted code. Without any of these options the
+ * code is returned as is.
+ */
+function decorateCode(pseudoLang: string, param: CodeParam): string {
+	const { lineNumbers, highlight = [], markers = {}, title, width } = param;
+	if (
+		lineNumbers === undefined &&
+		highlight.length === 0 &&
+		Object.keys(markers).length === 0 &&
+		title === undefined &&
+		width === undefined
+	) {
+		return pseudoLang;
+	}
+
+	const lines = splitStyledLines(pseudoLang);
+	const first = typeof lineNumbers === 'number' ? lineNumbers : 1;
+	const last = first + lines.length - 1;
+	const isHighlighted = (n: number) =>
+		highlight.some((range) =>
+			typeof range === 'number' ? range === n : n >= range[0] && n <= range[1],
+		);
+	const highlightLine = (text: string) =>
+		typeof param.highlightColor === 'function'
+			? param.highlightColor(text)
+			: param.highlightColor
+				? writePseudoColorLang([param.highlightColor], text)
+				: defaultHighlight(text);
+
+	// The gutter: an optional marker column, then the line numbers
+	const hasMarkers = Object.keys(markers).length > 0;
+	const numberWidth = String(last).length;
+	const showNumbers = lineNumbers !== undefined && lineNumbers !== false;
+	const gutter = (n: number | undefined) => {
+		let text = '';
+		const marker = n === undefined ? undefined : markers[n];
+		if (hasMarkers) {
+			text += marker
+				? writePseudoColorLang(
+						[markerSymbols[marker][1]],
+						markerSymbols[marker][0],
+					) + ' '
+				: '  ';
+		}
+		if (showNumbers) {
+			const number = (n === undefined ? '' : String(n)).padStart(numberWidth);
+			text +=
+				writePseudoColorLang(
+					[marker ? markerSymbols[marker][1] : 'gray'],
+					number,
+				) + writePseudoColorLang(['gray'], ' │ ');
+		}
+		return text;
+	};
+	const gutterWidth =
+		(hasMarkers ? 2 : 0) + (showNumbers ? numberWidth + 3 : 0);
+
+	const contentWidth =
+		width === undefined
+			? Math.max(...lines.map(visibleWidth))
+			: Math.max(1, width - gutterWidth);
+
+	const output: string[] = [];
+	if (title !== undefined) {
+		output.push(writePseudoColorLang(['bold'], escapePseudoLang(title)));
+		output.push(
+			writePseudoColorLang(['gray'], '─'.repeat(gutterWidth + contentWidth)),
+		);
+	}
+
+	lines.forEach((line, i) => {
+		const n = first + i;
+		const parts =
+			width === undefined
+				? [line]
+				: param.overflow === 'ellipsis'
+					? [truncateStyled(line, contentWidth)]
+					: wrapLines(line, contentWidth);
+		parts.forEach((part, j) => {
+			const content = isHighlighted(n)
+				? highlightLine(padStyled(part, contentWidth))
+				: part;
+			output.push(gutter(j === 0 ? n : undefined) + content);
+		});
+	});
+
+	return output.join('\n');
 }
 
 /**
@@ -56,6 +170,12 @@ function renderCode(param: { lang: string; content: string; theme?: Theme }) {
  *   @property lang - The programming language of the code content.
  *   @property content - The actual code content to be rendered.
  *   @property [theme] - An optional theme to style the rendered code.
+ *   @property [lineNumbers] - Shows line numbers, a number sets the first one.
+ *   @property [highlight] - Line numbers or `[from, to]` ranges to highlight with a background.
+ *   @property [markers] - Gutter markers ("error", "warn", "info") by line number.
+ *   @property [title] - A title, such as a file name, shown above the code.
+ *   @property [width] - The total width of the block; longer lines are wrapped, or cut with `overflow: 'ellipsis'`.
+ *   @property [onLanguage] - Called with the language used, e.g. the one detected with `lang: 'auto'`.
  *
  * @returns The rendered code as a string.
  *
@@ -79,10 +199,42 @@ export function code(param: CodeParam) {
 	return renderCode(param);
 }
 
+/**
+ * A gutter marker, drawn before the line number: `✖` in red for "error",
+ * `▲` in yellow for "warn", `●` in blue for "info".
+ */
+export type CodeMarker = 'error' | 'warn' | 'info';
+
 export type CodeParam = {
-	lang: string;
+	/**
+	 * The language of the content, `"auto"` to detect it among the
+	 * registered languages. Unknown languages are shown as plain text.
+	 */
+	lang: 'auto' | (string & {});
 	content: string;
+	/**
+	 * Called with the language the content is highlighted as, the detected
+	 * one with `lang: "auto"`, or undefined when it is shown as plain text.
+	 */
+	onLanguage?: (lang: string | undefined) => void;
 	theme?: Theme;
+	/** Shows line numbers. A number sets the number of the first line. */
+	lineNumbers?: boolean | number;
+	/**
+	 * Lines to highlight with a background, as line numbers or inclusive
+	 * `[from, to]` ranges. Lines are counted from the first line number.
+	 */
+	highlight?: (number | [number, number])[];
+	/** The background of highlighted lines. Defaults to a dark gray. */
+	highlightColor?: ChalkStyleKeys | ColorFn;
+	/** Gutter markers by line number, e.g. `{ 12: 'error' }`. */
+	markers?: Record<number, CodeMarker>;
+	/** A title, such as a file name, shown above the code. */
+	title?: string;
+	/** The total width of the block, gutter included. */
+	width?: number;
+	/** Wraps or cuts lines wider than `width`. Defaults to "wrap". */
+	overflow?: 'wrap' | 'ellipsis';
 };
 
 /**
@@ -94,3 +246,86 @@ export type CodeParam = {
 export function registerLang(lang: string, descriptor: LanguageFn) {
 	hljs.registerLanguage(lang, descriptor);
 }
+
+/**
+ * Detects the language of a code snippet with the highlight.js
+ * auto-detection, among the registered languages.
+ *
+ * @param content - The code to look at.
+ * @param subset - Restricts the detection to these languages. Defaults to every registered language.
+ * @returns The name of the detected language, or undefined when none fits.
+ *
+ * @example
+ * ```ts
+ * registerLang('python', python);
+ * detectLang('def main():\n    pass'); // "python"
+ * ```
+ */
+export function detectLang(
+	content: string,
+	subset?: string[],
+): string | undefined {
+	return hljs.highlightAuto(content, subset).language;
+}
+
+/**
+ * Loads a highlight.js grammar for `loadLang`, usually with a dynamic
+ * import. It receives the name of the language being loaded.
+ */
+export type LangLoader = (
+	lang: string,
+) => Promise<LanguageFn | { default: LanguageFn }>;
+
+/**
+ * Imports the highlight.js grammar of that name.
+ */
+const importLang: LangLoader = (lang) =>
+	import(`highlight.js/lib/languages/${lang}`);
+
+/**
+ * Loads a highlight.js grammar on demand and registers it under a name, so
+ * `code()` can use it without a static import. By default the grammar of
+ * that name is imported from `highlight.js/lib/languages`; pass a loader
+ * where the runtime or bundler cannot resolve that specifier, or to load a
+ * grammar from elsewhere.
+ *
+ * @param lang - The name to register the language under, e.g. "python".
+ * @param loader - Loads the grammar, given the name. Defaults to importing
+ * it from highlight.js.
+ * @returns A promise resolved once the language is registered, rejected
+ * when the grammar cannot be loaded. Registered languages are not loaded
+ * again.
+ *
+ * @example
+ * ```ts
+ * await loadLang('python');
+ * await loadLang('snake', () => import('highlight.js/lib/languages/python'));
+ * ```
+ */
+export async function loadLang(
+	lang: string,
+	loader: LangLoader = importLang,
+): Promise<void> {
+	if (hljs.getLanguage(lang)) return;
+	if (!/^[\w-]+$/.test(lang)) {
+		throw new Error(`Invalid language name "${lang}"`);
+	}
+
+	let module: Awaited<ReturnType<LangLoader>>;
+	try {
+		module = await loader(lang);
+	} catch (error) {
+		throw new Error(`Unknown language "${lang}"`, { cause: error });
+	}
+	registerLang(lang, typeof module === 'function' ? module : module.default);
+}
+
+/**
+ * Lists the languages registered with the syntax highlighter, aliases
+ * excluded.
+ *
+ * @returns The names of the registered languages.
+ */
+export function listLangs(): string[] {
+	return hljs.listLanguages();
+}
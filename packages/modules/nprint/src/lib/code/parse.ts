@@ -1,14 +1,22 @@
 import hljs from 'highlight.js/lib/core';
+import type { HighlightResult } from 'highlight.js';
 import type { CodeScheme, HtmlNode } from './types';
 import githubDark from './styles/github-dark';
-//@ts-ignore no @types for this lib
-import HTML from 'html-parse-stringify';
 import { unescapeHTML } from './unescape';
+import { escapePseudoLang } from '../lang/pseudoLang';
 import type { Node } from './types';
+import {
+	compareSpecificity,
+	matchesSelector,
+	parseSelector,
+	SelectorTarget,
+} from './selector';
 
 /**
  * Parses and styles a code snippet from a string using a given language and theme.
- * This function utilizes a JSDOM-like approach to apply theme styles with CSS selectors.
+ * This function utilizes a JSDOM-like approach to apply theme styles with CSS
+ * selectors: element names, classes, descendant and child combinators and
+ * selector lists, ordered by specificity.
  * @param language The language of the code (e.g., 'typescript', 'javascript').
  * @param content The raw code content as a string.
  * @param theme The theme object containing styling rules.
@@ -19,84 +27,207 @@ export function parseCode(
 	content: string,
 	theme: CodeScheme = githubDark,
 ): string {
-	// Highlight the code with highlight.js to get HTML with class names.
-	const highlightedHtml = hljs.highlight(content, { language }).value;
+	const result = hljs.highlight(content, { language });
 
-	// Parse the HTML string into a custom tree structure.
-	const document = HTML.parse(unescapeHTML(`<div>${highlightedHtml}</div>`));
+	// Build the element tree from the token tree highlight.js keeps, and
+	// only parse its HTML output when another emitter was configured.
+	const root = tokenTreeRoot(result) ?? htmlRoot(result.value);
 
-	// A map to store the styling functions for each element.
-	const styleMap = new Map<HtmlNode, ((...x: string[]) => string)[]>();
+	return styleTree(root, theme);
+}
 
-	// Iterate through theme styles and apply them using a custom querySelectorAll.
-	for (const selector in theme.styles) {
-		if (Object.prototype.hasOwnProperty.call(theme.styles, selector)) {
-			const styleFunctions = theme.styles[selector];
-			try {
-				// Find all elements matching the CSS selector using a custom implementation.
-				const elements = querySelectorAll(selector, document[0] as HtmlNode);
-				elements.forEach((element) => {
-					const existingStyles = styleMap.get(element) || [];
-					styleMap.set(element, [...existingStyles, ...styleFunctions]);
-				});
-			} catch (error) {
-				console.error(`Invalid selector: "${selector}". Error: ${error}`);
-			}
+/**
+ * The node of the highlight.js token tree, as built by its default emitter.
+ */
+interface TokenNode {
+	scope?: string;
+	children: (string | TokenNode)[];
+}
+
+/**
+ * Builds the element tree straight from the highlight.js token tree,
+ * with the classes its HTML renderer would give.
+ * @internal
+ * @param result The highlight.js result.
+ * @returns The root element, or null when the emitter has no token tree.
+ */
+export function tokenTreeRoot(result: HighlightResult): HtmlNode | null {
+	// A private field of highlight.js, which may change or go away
+	const emitter = result._emitter as { rootNode?: TokenNode } | undefined;
+	const rootNode = emitter?.rootNode;
+	if (!rootNode || !Array.isArray(rootNode.children)) return null;
+
+	// Like the HTML renderer, nodes without a scope add no element.
+	const toNodes = (token: string | TokenNode): Node[] => {
+		if (typeof token === 'string') return [{ type: 'text', content: token }];
+		const children = token.children.flatMap(toNodes);
+		if (!token.scope) return children;
+		return [
+			{
+				type: 'tag',
+				name: 'span',
+				attrs: { class: scopeClasses(token.scope) },
+				voidElement: false,
+				children,
+			},
+		];
+	};
+
+	return { ...codeRoot(), children: rootNode.children.flatMap(toNodes) };
+}
+
+/**
+ * Parses the HTML output of highlight.js into the element tree. The output
+ * only holds spans and escaped text, so it is scanned tag by tag, keeping
+ * the whitespace between tokens as is.
+ * @internal
+ * @param html The highlighted HTML.
+ * @returns The root element.
+ */
+export function htmlRoot(html: string): HtmlNode {
+	const root = codeRoot();
+	const stack = [root];
+	const tags = /<span(?: class="([^"]*)")?>|<\/span>/g;
+	let last = 0;
+
+	const pushText = (end: number) => {
+		// Entities are decoded once the markup is split, so that escaped
+		// brackets in the code are never read as tags.
+		if (end > last) {
+			stack[stack.length - 1].children!.push({
+				type: 'text',
+				content: unescapeHTML(html.slice(last, end)),
+			});
+		}
+	};
+
+	for (let match; (match = tags.exec(html));) {
+		pushText(match.index);
+		last = tags.lastIndex;
+
+		if (match[0] === '</span>') {
+			if (stack.length > 1) stack.pop();
+			continue;
 		}
+		const span: HtmlNode = {
+			type: 'tag',
+			name: 'span',
+			voidElement: false,
+			children: [],
+		};
+		if (match[1] !== undefined) span.attrs = { class: match[1] };
+		stack[stack.length - 1].children!.push(span);
+		stack.push(span);
+	}
+	pushText(html.length);
+
+	return root;
+}
+
+/**
+ * The element holding the highlighted code, `code.hljs` as in the pages
+ * highlight.js themes are written for.
+ */
+function codeRoot(): HtmlNode {
+	return {
+		type: 'tag',
+		name: 'code',
+		attrs: { class: 'hljs' },
+		voidElement: false,
+		children: [],
+	};
+}
+
+/**
+ * Converts a highlight.js scope into the classes of its HTML renderer:
+ * "title.class.inherited" → "hljs-title class_ inherited__",
+ * "language:css" → "language-css".
+ */
+function scopeClasses(scope: string): string {
+	if (scope.startsWith('language:')) {
+		return scope.replace('language:', 'language-');
+	}
+	const [first, ...rest] = scope.split('.');
+	return [
+		`hljs-${first}`,
+		...rest.map((part, i) => part + '_'.repeat(i + 1)),
+	].join(' ');
+}
+
+/**
+ * Applies the styles of a theme to the tokens of an element tree. The root
+ * is matched as `pre > code.hljs`, so that selectors such as
+ * `.hljs .hljs-keyword` work, but only the tokens are styled.
+ * @internal
+ * @param root The root element, holding the highlighted code.
+ * @param theme The theme object containing styling rules.
+ * @returns The styled code as a string, with pseudo-language formatting.
+ */
+export function styleTree(root: HtmlNode, theme: CodeScheme): string {
+	// The theme rules, in source order. Selectors using unsupported syntax
+	// never match, `validateTheme` reports them.
+	const rules = Object.entries(theme.styles).flatMap(
+		([selector, styles], order) => {
+			const list = parseSelector(selector);
+			return list ? [{ list, styles, order }] : [];
+		},
+	);
+
+	// A map to store the styling functions for each element.
+	const styleMap = new Map<HtmlNode, ((...x: string[]) => string)[]>();
+	const rootPath = [{ name: 'pre', classes: [] }, target(root)];
+	for (const child of root.children || []) {
+		if (child.type === 'tag') collectStyles(child, rootPath);
 	}
 
 	// Perform a DFS to construct the final output string, applying styles from the map.
-	return dfs(document[0] as HtmlNode);
+	return dfs(root);
 
 	/**
-	 * Recursively finds nodes matching a CSS selector within a given node.
-	 * This custom implementation handles multiple class selectors.
-	 * @param selector The CSS selector (e.g., '.hljs-string.hljs-title').
-	 * @param node The starting node of the search.
-	 * @returns An array of matching HtmlNodes.
+	 * Finds the rules matching each element, like `querySelectorAll` would.
+	 * The styles of the most specific rule, or of the last one among equally
+	 * specific rules, come first so that they end up innermost and win.
+	 * @param node The current element.
+	 * @param ancestors The elements above it, from the root.
 	 */
-	function querySelectorAll(selector: string, node: HtmlNode): HtmlNode[] {
-		const matches: HtmlNode[] = [];
-		const selectorClasses = selector
-			.split('.')
-			.map((s) => s.trim())
-			.filter((s) => s.length > 0);
-
-		// const isRecursive = selector.includes(' ');
-
-		function dfs(currentNode: Node, ancestorClasses: string = '') {
-			if (currentNode.type === 'tag') {
-				// Check if the current node matches all classes in the selector.
-				const nodeClasses = (currentNode?.attrs?.class || '').split(' ');
-
-				let accumuletedClasses: string[];
-
-				const allClassesMatch = selectorClasses.every((selClass) => {
-					// if(!isRecursive){
-					return nodeClasses.includes(selClass);
-					// }
-					if (!accumuletedClasses) {
-						accumuletedClasses = [...ancestorClasses.split(' '), selClass];
-					}
-					return nodeClasses.every((c) => {
-						return accumuletedClasses.includes(c);
-					});
-				});
-
-				if (allClassesMatch) {
-					matches.push(currentNode);
-				}
-
-				// Recurse on children.
-				if (currentNode.children) {
-					for (const child of currentNode.children) {
-						dfs(child, ancestorClasses + ' ' + (node?.attrs?.class || ''));
-					}
-				}
-			}
+	function collectStyles(node: HtmlNode, ancestors: SelectorTarget[]) {
+		const path = [...ancestors, target(node)];
+
+		const matched = rules.flatMap((rule) => {
+			const specificities = rule.list
+				.filter((selector) => matchesSelector(path, selector))
+				.map((selector) => selector.specificity)
+				.sort(compareSpecificity);
+			return specificities.length > 0
+				? [{ rule, specificity: specificities[specificities.length - 1] }]
+				: [];
+		});
+		if (matched.length > 0) {
+			matched.sort(
+				(a, b) =>
+					compareSpecificity(b.specificity, a.specificity) ||
+					b.rule.order - a.rule.order,
+			);
+			styleMap.set(
+				node,
+				matched.flatMap(({ rule }) => rule.styles),
+			);
 		}
-		dfs(node);
-		return matches;
+
+		for (const child of node.children || []) {
+			if (child.type === 'tag') collectStyles(child, path);
+		}
+	}
+
+	/**
+	 * Describes an element as seen by selectors.
+	 * @param node The element.
+	 */
+	function target(node: HtmlNode): SelectorTarget {
+		return {
+			name: node.name,
+			classes: (node.attrs?.class || '').split(' ').filter(Boolean),
+		};
 	}
 
 	/**
@@ -105,9 +236,10 @@ export function parseCode(
 	 * @returns The styled string content of the node and its children.
 	 */
 	function dfs(node: Node): string {
-		// If the node is a text node, return its content.
+		// If the node is a text node, return its content, escaped so that the
+		// highlighted source can never be mistaken for style tags.
 		if (node.type === 'text') {
-			return node.content || '';
+			return escapePseudoLang(node.content || '');
 		}
 
 		// If the node is a tag, process its children first to apply styles.
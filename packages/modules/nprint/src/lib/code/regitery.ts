@@ -4,11 +4,66 @@ import vs from './styles/vs';
 import far from './styles/far';
 import { CodeScheme } from './types';
 
-export const ThemeRegistry = {
-	vs,
-	far,
-	monokai,
-	githubDark,
-} satisfies { [k: string]: CodeScheme };
-
-export type Theme = keyof typeof ThemeRegistry;
+/**
+ * The built-in code themes. Themes added with `registerTheme` can be used
+ * by any name; extending this interface lists them with the built-in ones
+ * in editor completions:
+ *
+ * ```ts
+ * declare module '@monitext/nprint' {
+ *   interface CodeThemes {
+ *     company: CodeScheme;
+ *   }
+ * }
+ * ```
+ */
+export interface CodeThemes {
+	vs: CodeScheme;
+	far: CodeScheme;
+	monokai: CodeScheme;
+	githubDark: CodeScheme;
+}
+
+export const ThemeRegistry: CodeThemes & Record<string, CodeScheme> =
+	Object.assign(Object.create(null), { vs, far, monokai, githubDark });
+
+/**
+ * The name of a code theme: a built-in one, or one added with
+ * `registerTheme`.
+ */
+export type Theme = keyof CodeThemes | (string & {});
+
+/**
+ * Adds a code theme, or replaces one, so it can be used by name wherever a
+ * `theme` is accepted.
+ *
+ * @param name - The name of the theme.
+ * @param scheme - The theme, e.g. from `themeFromCSS` or `themeFromTextMate`.
+ * @throws When the name is "__proto__", which some lookups cannot reach.
+ *
+ * @example
+ * ```ts
+ * registerTheme('company', themeFromCSS(css));
+ * code({ lang: 'ts', content, theme: 'company' });
+ * ```
+ */
+export function registerTheme(name: string, scheme: CodeScheme): void {
+	if (name === '__proto__') {
+		throw new Error(`Reserved theme name "${name}"`);
+	}
+	ThemeRegistry[name] = scheme;
+}
+
+/**
+ * Looks up a code theme by name.
+ *
+ * @param name - A built-in theme or one added with `registerTheme`.
+ * @returns The theme.
+ * @throws When no theme has this name.
+ */
+export function getTheme(name: Theme): CodeScheme {
+	if (!Object.hasOwn(ThemeRegistry, name)) {
+		throw new Error(`Unknown theme "${name}"`);
+	}
+	return ThemeRegistry[name];
+}
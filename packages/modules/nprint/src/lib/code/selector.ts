@@ -0,0 +1,125 @@
+/**
+ * A compound selector: an optional element name and classes, e.g.
+ * `span.hljs-title.class_`.
+ */
+export interface CompoundSelector {
+	/** The element name, undefined for `*` or when there is none. */
+	name?: string;
+	classes: string[];
+}
+
+/**
+ * A complex selector: compound selectors joined by descendant (` `) or
+ * child (`>`) combinators, e.g. `.hljs-meta > .hljs-string`.
+ */
+export interface ComplexSelector {
+	compounds: CompoundSelector[];
+	/** `combinators[i]` joins `compounds[i]` and `compounds[i + 1]`. */
+	combinators: ('descendant' | 'child')[];
+	/** The number of classes, then of element names. */
+	specificity: [number, number];
+}
+
+/**
+ * An element of the highlighted tree, as seen by selectors.
+ */
+export interface SelectorTarget {
+	name?: string;
+	classes: string[];
+}
+
+const compoundPattern = /^(\*|[a-zA-Z][\w-]*)?((?:\.[\w-]+)*)$/;
+
+/**
+ * Parses a selector list such as `.hljs-function .hljs-title, .hljs-type`.
+ *
+ * @param selector - The selector list.
+ * @returns One complex selector per item of the list, or null when the
+ * selector uses syntax other than element names, classes, `*`, descendant
+ * and child combinators, and commas.
+ */
+export function parseSelector(selector: string): ComplexSelector[] | null {
+	const list: ComplexSelector[] = [];
+
+	for (const item of selector.split(',')) {
+		const parts = item
+			.trim()
+			.replace(/\s*>\s*/g, '>')
+			.split(/(\s+|>)/);
+		const compounds: CompoundSelector[] = [];
+		const combinators: ComplexSelector['combinators'] = [];
+
+		for (let i = 0; i < parts.length; i += 2) {
+			const match = parts[i].match(compoundPattern);
+			if (!match || parts[i] === '') return null;
+
+			const name = match[1] === '*' ? undefined : match[1];
+			const classes = match[2].split('.').filter((c) => c !== '');
+			compounds.push({ name, classes });
+			if (i > 0) {
+				combinators.push(parts[i - 1] === '>' ? 'child' : 'descendant');
+			}
+		}
+
+		list.push({
+			compounds,
+			combinators,
+			specificity: [
+				compounds.reduce((sum, c) => sum + c.classes.length, 0),
+				compounds.filter((c) => c.name !== undefined).length,
+			],
+		});
+	}
+
+	return list;
+}
+
+/**
+ * Tells whether the last element of a path matches a complex selector.
+ *
+ * @param path - The element and its ancestors, from the root to the element.
+ * @param selector - The selector to match.
+ */
+export function matchesSelector(
+	path: SelectorTarget[],
+	selector: ComplexSelector,
+): boolean {
+	const matchFrom = (at: number, compound: number): boolean => {
+		if (!matchesCompound(path[at], selector.compounds[compound])) {
+			return false;
+		}
+		if (compound === 0) return true;
+
+		if (selector.combinators[compound - 1] === 'child') {
+			return at > 0 && matchFrom(at - 1, compound - 1);
+		}
+		for (let ancestor = at - 1; ancestor >= 0; ancestor--) {
+			if (matchFrom(ancestor, compound - 1)) return true;
+		}
+		return false;
+	};
+
+	return (
+		path.length > 0 && matchFrom(path.length - 1, selector.compounds.length - 1)
+	);
+}
+
+/**
+ * Orders two specificities, negative when `a` is the less specific.
+ */
+export function compareSpecificity(
+	a: ComplexSelector['specificity'],
+	b: ComplexSelector['specificity'],
+): number {
+	return a[0] - b[0] || a[1] - b[1];
+}
+
+function matchesCompound(
+	target: SelectorTarget,
+	compound: CompoundSelector,
+): boolean {
+	if (compound.name !== undefined && compound.name !== target.name) {
+		return false;
+	}
+	return compound.classes.every((c) => target.classes.includes(c));
+}
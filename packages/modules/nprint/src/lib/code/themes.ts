@@ -0,0 +1,409 @@
+import { bgHex, cols, hex } from '../cols/colorPack';
+import { parseColor, rgbToHex } from '../cols/colorMath';
+import { parseSelector } from './selector';
+import { CodeScheme } from './types';
+
+type StyleFn = (...x: string[]) => string;
+
+/**
+ * A theme selector that can never match highlighted code, and why.
+ */
+export interface ThemeIssue {
+	selector: string;
+	reason: string;
+}
+
+/**
+ * A VS Code or TextMate color theme, as found in `.json` theme files.
+ */
+export interface TextMateTheme {
+	name?: string;
+	colors?: Record<string, string>;
+	tokenColors?: {
+		scope?: string | string[];
+		settings: {
+			foreground?: string;
+			background?: string;
+			fontStyle?: string;
+		};
+	}[];
+}
+
+/**
+ * The classes highlight.js puts on the tokens it emits: `hljs-` scopes,
+ * and the suffixes of sub-scopes such as `title.class_`.
+ */
+const hljsClasses = new Set([
+	...[
+		'keyword',
+		'built_in',
+		'type',
+		'literal',
+		'number',
+		'operator',
+		'punctuation',
+		'property',
+		'regexp',
+		'string',
+		'char',
+		'subst',
+		'symbol',
+		'class',
+		'function',
+		'variable',
+		'title',
+		'params',
+		'comment',
+		'doctag',
+		'meta',
+		'section',
+		'tag',
+		'name',
+		'attr',
+		'attribute',
+		'bullet',
+		'code',
+		'emphasis',
+		'strong',
+		'formula',
+		'link',
+		'quote',
+		'selector-attr',
+		'selector-class',
+		'selector-id',
+		'selector-pseudo',
+		'selector-tag',
+		'template-tag',
+		'template-variable',
+		'addition',
+		'deletion',
+	].map((scope) => `hljs-${scope}`),
+	'class_',
+	'function_',
+	'inherited__',
+	'invoke__',
+	'escape_',
+	'language_',
+	'constant_',
+	'prompt_',
+]);
+
+/**
+ * The TextMate scopes a highlight.js selector takes its style from, the
+ * first one a theme styles wins.
+ */
+const textMateScopes: Record<string, string[]> = {
+	'.hljs-keyword': ['keyword', 'storage.type'],
+	'.hljs-built_in': ['support.function', 'support'],
+	'.hljs-type': ['entity.name.type', 'support.type', 'storage.type'],
+	'.hljs-literal': ['constant.language', 'constant'],
+	'.hljs-number': ['constant.numeric', 'constant'],
+	'.hljs-operator': ['keyword.operator'],
+	'.hljs-punctuation': ['punctuation'],
+	'.hljs-property': ['support.type.property-name', 'variable.other.property'],
+	'.hljs-regexp': ['string.regexp', 'string'],
+	'.hljs-string': ['string'],
+	'.hljs-char.escape_': ['constant.character.escape'],
+	'.hljs-subst': ['meta.template.expression', 'variable'],
+	'.hljs-symbol': ['constant.other.symbol', 'constant'],
+	'.hljs-variable': ['variable'],
+	'.hljs-variable.language_': ['variable.language'],
+	'.hljs-variable.constant_': ['variable.other.constant', 'constant'],
+	'.hljs-title': ['entity.name'],
+	'.hljs-title.class_': ['entity.name.type.class', 'entity.name.type'],
+	'.hljs-title.class_.inherited__': ['entity.other.inherited-class'],
+	'.hljs-title.function_': ['entity.name.function'],
+	'.hljs-params': ['variable.parameter'],
+	'.hljs-comment': ['comment'],
+	'.hljs-doctag': ['storage.type.class.jsdoc', 'comment.block.documentation'],
+	'.hljs-meta': ['meta.preprocessor', 'keyword.control.directive'],
+	'.hljs-section': ['markup.heading', 'entity.name.section'],
+	'.hljs-tag': ['entity.name.tag'],
+	'.hljs-name': ['entity.name.tag'],
+	'.hljs-attr': ['support.type.property-name', 'entity.other.attribute-name'],
+	'.hljs-attribute': ['entity.other.attribute-name'],
+	'.hljs-bullet': ['markup.list', 'punctuation.definition.list'],
+	'.hljs-code': ['markup.inline.raw', 'markup.raw'],
+	'.hljs-emphasis': ['markup.italic'],
+	'.hljs-strong': ['markup.bold'],
+	'.hljs-link': ['markup.underline.link'],
+	'.hljs-quote': ['markup.quote'],
+	'.hljs-selector-tag': ['entity.name.tag.css', 'entity.name.tag'],
+	'.hljs-selector-class': ['entity.other.attribute-name.class'],
+	'.hljs-selector-id': ['entity.other.attribute-name.id'],
+	'.hljs-selector-pseudo': ['entity.other.attribute-name.pseudo-class'],
+	'.hljs-selector-attr': ['entity.other.attribute-name.attribute'],
+	'.hljs-template-tag': ['punctuation.definition.template-expression'],
+	'.hljs-template-variable': ['variable.other.template'],
+	'.hljs-addition': ['markup.inserted'],
+	'.hljs-deletion': ['markup.deleted'],
+};
+
+/**
+ * Lists the selectors and declarations of the top-level rules of a
+ * stylesheet. At-rules are skipped with their content, so the rules of
+ * conditional blocks such as `@media` or `@supports` are left out.
+ */
+function topLevelRules(css: string): [string, string][] {
+	const rules: [string, string][] = [];
+	let depth = 0;
+	let start = 0;
+	let prelude = '';
+
+	for (let i = 0; i < css.length; i++) {
+		const char = css[i];
+		if (char === '{') {
+			if (depth++ === 0) {
+				prelude = css.slice(start, i);
+				start = i + 1;
+			}
+		} else if (char === '}' && depth > 0) {
+			if (--depth > 0) continue;
+			const body = css.slice(start, i);
+			if (!prelude.trim().startsWith('@') && !body.includes('{')) {
+				rules.push([prelude, body]);
+			}
+			start = i + 1;
+		} else if (char === ';' && depth === 0) {
+			start = i + 1;
+		}
+	}
+	return rules;
+}
+
+/**
+ * Converts a highlight.js CSS theme, such as the files of
+ * `highlight.js/styles`, into a `CodeScheme`. Colors, backgrounds, bold,
+ * italic, underline and line-through are kept, other declarations are
+ * ignored, and so are at-rules such as `@media` with the rules they hold.
+ *
+ * @param css - The content of the stylesheet.
+ * @param name - The name of the theme. Defaults to "custom".
+ * @returns The theme, to pass to `registerTheme`.
+ *
+ * @example
+ * ```ts
+ * import { readFileSync } from 'node:fs';
+ * const css = readFileSync('node_modules/highlight.js/styles/nord.css', 'utf8');
+ * registerTheme('nord', themeFromCSS(css, 'nord'));
+ * ```
+ */
+export function themeFromCSS(css: string, name = 'custom'): CodeScheme {
+	const styles: CodeScheme['styles'] = {};
+	const source = css.replace(/\/\*[\s\S]*?\*\//g, '');
+
+	for (const [selectors, declarations] of topLevelRules(source)) {
+		const fns = declarations.split(';').flatMap((declaration) => {
+			const colon = declaration.indexOf(':');
+			if (colon === -1) return [];
+			return declarationStyles(
+				declaration.slice(0, colon).trim().toLowerCase(),
+				declaration.slice(colon + 1).trim(),
+			);
+		});
+		if (fns.length === 0) continue;
+
+		for (const selector of selectors.split(',')) {
+			const key = selector.trim().replace(/\s+/g, ' ');
+			if (key === '') continue;
+			styles[key] = [
+				...(Object.hasOwn(styles, key) ? styles[key] : []),
+				...fns,
+			];
+		}
+	}
+
+	return { name, styles };
+}
+
+/**
+ * Converts a VS Code or TextMate color theme, with its `tokenColors`, into
+ * a `CodeScheme` by mapping each highlight.js token to the closest TextMate
+ * scope. The editor colors are left out, as `code()` only styles tokens.
+ *
+ * @param theme - The theme, parsed or as JSON text.
+ * @param name - The name of the theme. Defaults to the `name` of the theme, or "custom".
+ * @returns The theme, to pass to `registerTheme`.
+ *
+ * @example
+ * ```ts
+ * const json = readFileSync('themes/company-color-theme.json', 'utf8');
+ * registerTheme('company', themeFromTextMate(json));
+ * ```
+ */
+export function themeFromTextMate(
+	theme: TextMateTheme | string,
+	name?: string,
+): CodeScheme {
+	const source: TextMateTheme =
+		typeof theme === 'string' ? JSON.parse(theme) : theme;
+	const rules = (source.tokenColors || []).flatMap((rule) => {
+		const scopes =
+			rule.scope === undefined
+				? ['']
+				: Array.isArray(rule.scope)
+					? rule.scope
+					: rule.scope.split(',');
+		// Scope paths such as "source.js string" only apply in some contexts
+		return scopes
+			.map((scope) => scope.trim())
+			.filter((scope) => !scope.includes(' '))
+			.map((scope) => ({ scope, settings: rule.settings }));
+	});
+
+	const styles: CodeScheme['styles'] = {};
+	for (const [selector, candidates] of Object.entries(textMateScopes)) {
+		for (const target of candidates) {
+			const settings = matchScope(rules, target);
+			if (!settings) continue;
+
+			const fns = [
+				...declarationStyles('color', settings.foreground),
+				...declarationStyles('background-color', settings.background),
+				...fontStyles(settings.fontStyle),
+			];
+			if (fns.length > 0) styles[selector] = fns;
+			break;
+		}
+	}
+
+	return { name: name ?? source.name ?? 'custom', styles };
+}
+
+/**
+ * Lists the selectors of a theme that can never match highlighted code:
+ * unknown classes or elements, unsupported syntax such as pseudo-classes,
+ * and the `pre code.hljs` root, which `code()` does not style.
+ *
+ * @param scheme - The theme to check.
+ * @returns One issue per selector that never matches, empty when all can.
+ *
+ * @example
+ * ```ts
+ * const scheme = themeFromCSS(css);
+ * for (const issue of validateTheme(scheme)) {
+ *   console.warn(`${issue.selector}: ${issue.reason}`);
+ * }
+ * ```
+ */
+export function validateTheme(scheme: CodeScheme): ThemeIssue[] {
+	const issues: ThemeIssue[] = [];
+	for (const selector of Object.keys(scheme.styles)) {
+		const reason = selectorIssue(selector);
+		if (reason) issues.push({ selector, reason });
+	}
+	return issues;
+}
+
+function selectorIssue(selector: string): string | undefined {
+	const list = parseSelector(selector);
+	if (!list) {
+		return 'only element names, classes, descendant and child combinators are supported';
+	}
+
+	// A list can match as long as one of its selectors can
+	const issues = list.map((complex) => {
+		const last = complex.compounds.length - 1;
+		for (const [i, compound] of complex.compounds.entries()) {
+			if (
+				compound.name !== undefined &&
+				!['span', 'pre', 'code'].includes(compound.name)
+			) {
+				return `code() output has no "${compound.name}" element`;
+			}
+			// The tokens sit in `pre > code.hljs`, which code() does not style
+			const isRoot =
+				compound.name === 'pre' ||
+				compound.name === 'code' ||
+				compound.classes.includes('hljs');
+			if (isRoot) {
+				if (i === last) return 'code() only styles tokens, not the .hljs root';
+				continue;
+			}
+			const unknown = compound.classes.find((c) => !hljsClasses.has(c));
+			if (unknown) return `highlight.js never emits the class "${unknown}"`;
+		}
+		return undefined;
+	});
+	return issues.includes(undefined) ? undefined : issues[0];
+}
+
+/**
+ * Finds the settings of the most specific rule matching a scope: a rule
+ * scope matches when it is the scope or one of its dot-separated prefixes,
+ * and later rules win ties, as in TextMate.
+ */
+function matchScope(
+	rules: {
+		scope: string;
+		settings: NonNullable<TextMateTheme['tokenColors']>[number]['settings'];
+	}[],
+	target: string,
+) {
+	let best: (typeof rules)[number] | undefined;
+	for (const rule of rules) {
+		if (rule.scope === '') continue;
+		if (rule.scope !== target && !target.startsWith(rule.scope + '.')) continue;
+		if (!best || rule.scope.length >= best.scope.length) best = rule;
+	}
+	return best?.settings;
+}
+
+function declarationStyles(
+	property: string,
+	value: string | undefined,
+): StyleFn[] {
+	if (value === undefined) return [];
+	const normalized = value.replace(/\s*!important$/, '').trim();
+
+	switch (property) {
+		case 'color': {
+			const color = cssColor(normalized);
+			return color ? [hex(color)] : [];
+		}
+		case 'background':
+		case 'background-color': {
+			const color = cssColor(normalized);
+			return color ? [bgHex(color)] : [];
+		}
+		case 'font-weight':
+			return normalized === 'bold' || Number(normalized) >= 600
+				? [cols.bold]
+				: [];
+		case 'font-style':
+			return normalized === 'italic' ? [cols.italic] : [];
+		case 'text-decoration':
+		case 'text-decoration-line':
+			return fontStyles(normalized);
+		default:
+			return [];
+	}
+}
+
+function fontStyles(value: string | undefined): StyleFn[] {
+	const words = (value || '').split(/\s+/);
+	const fns: StyleFn[] = [];
+	if (words.includes('bold')) fns.push(cols.bold);
+	if (words.includes('italic')) fns.push(cols.italic);
+	if (words.includes('underline')) fns.push(cols.underline);
+	if (words.includes('line-through') || words.includes('strikethrough')) {
+		fns.push(cols.strikethrough);
+	}
+	return fns;
+}
+
+/**
+ * Reads a CSS or theme color, dropping its alpha channel.
+ */
+function cssColor(value: string) {
+	let color = value.trim();
+	const alphaHex = color.match(
+		/^#([0-9a-f]{3})[0-9a-f]$|^#([0-9a-f]{6})[0-9a-f]{2}$/i,
+	);
+	if (alphaHex) color = `#${alphaHex[1] ?? alphaHex[2]}`;
+	const rgba = color.match(/^rgba?\(\s*([^,]+),\s*([^,]+),\s*([^,)]+)/i);
+	if (rgba) color = `rgb(${rgba[1]}, ${rgba[2]}, ${rgba[3]})`;
+
+	const rgb = parseColor(color);
+	return rgb ? rgbToHex(rgb) : null;
+}
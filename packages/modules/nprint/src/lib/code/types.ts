@@ -5,6 +5,7 @@ export interface TextNode {
 
 export interface HtmlNode {
 	type: 'tag';
+	name?: string;
 	attrs?: {
 		class?: string;
 	};
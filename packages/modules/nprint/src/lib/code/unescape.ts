@@ -4,12 +4,14 @@ export interface escapeMap {
 	[k: string]: string;
 }
 
+/**
+ * Decodes the HTML entities of a text in a single pass. Named entities are
+ * looked up in the map, numeric ones are decoded from their code point.
+ */
 export function unescapeHTML(text: string, map: escapeMap = fullEscapeMap) {
-	let input = text;
-	for (const k in map) {
-		while (input.match(k)) {
-			input = input.replace(k, map[k]);
-		}
-	}
-	return input;
+	return text.replace(/&(?:#(\d+)|#x([\da-f]+)|\w+);/gi, (entity, dec, hex) => {
+		if (entity in map) return map[entity];
+		const codePoint = dec ? Number(dec) : hex ? Number.parseInt(hex, 16) : NaN;
+		return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+	});
 }
@@ -0,0 +1,221 @@
+import { hexToRgb, RGB } from './colorQuantize';
+import { CSSColorName, cssNamedColors } from './namedColors';
+
+/**
+ * @fileoverview Color formats accepted by the color API, conversions between
+ * them, and color math helpers to derive shades from a base color.
+ */
+
+type hex = number | string;
+
+/**
+ * @typedef {string} hexadecimal
+ * @description
+ * A utility type for 3 or 6-digit hexadecimal color formats,
+ * prefixed with '#'.
+ */
+export type hexadecimal =
+	`#${hex}${hex}${hex}` | `#${hex}${hex}${hex}${hex}${hex}${hex}`;
+
+/**
+ * @typedef {string} rgbString
+ * @description
+ * A CSS-like `rgb()` color, e.g. "rgb(255, 136, 0)".
+ */
+export type rgbString =
+	`rgb(${number},${number},${number})` | `rgb(${number}, ${number}, ${number})`;
+
+/**
+ * @typedef {string} hslString
+ * @description
+ * A CSS-like `hsl()` color, e.g. "hsl(210, 50%, 40%)".
+ */
+export type hslString =
+	| `hsl(${number},${number}%,${number}%)`
+	| `hsl(${number}, ${number}%, ${number}%)`;
+
+/**
+ * Any color the color helpers accept.
+ */
+export type ColorInput = hexadecimal | rgbString | hslString | CSSColorName;
+
+/**
+ * Converts an RGB triplet into a 6-digit hexadecimal color.
+ */
+export function rgbToHex([r, g, b]: RGB): hexadecimal {
+	const channel = (c: number) =>
+		Math.round(clamp(c, 0, 255))
+			.toString(16)
+			.padStart(2, '0');
+	return `#${channel(r)}${channel(g)}${channel(b)}` as hexadecimal;
+}
+
+/**
+ * Converts an RGB triplet into HSL, hue in degrees, saturation and
+ * lightness in percents.
+ */
+export function rgbToHsl([r, g, b]: RGB): [number, number, number] {
+	const rn = r / 255;
+	const gn = g / 255;
+	const bn = b / 255;
+	const max = Math.max(rn, gn, bn);
+	const min = Math.min(rn, gn, bn);
+	const l = (max + min) / 2;
+
+	if (max === min) return [0, 0, l * 100];
+
+	const d = max - min;
+	const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+	let h: number;
+	if (max === rn) h = (gn - bn) / d + (gn < bn ? 6 : 0);
+	else if (max === gn) h = (bn - rn) / d + 2;
+	else h = (rn - gn) / d + 4;
+
+	return [h * 60, s * 100, l * 100];
+}
+
+/**
+ * Converts an HSL color (hue in degrees, saturation and lightness in
+ * percents) into an RGB triplet.
+ */
+export function hslToRgb(h: number, s: number, l: number): RGB {
+	const hue = (((h % 360) + 360) % 360) / 360;
+	const sat = clamp(s, 0, 100) / 100;
+	const light = clamp(l, 0, 100) / 100;
+
+	if (sat === 0) {
+		const gray = Math.round(light * 255);
+		return [gray, gray, gray];
+	}
+
+	const q = light < 0.5 ? light * (1 + sat) : light + sat - light * sat;
+	const p = 2 * light - q;
+	const channel = (t: number) => {
+		const tt = t < 0 ? t + 1 : t > 1 ? t - 1 : t;
+		if (tt < 1 / 6) return p + (q - p) * 6 * tt;
+		if (tt < 1 / 2) return q;
+		if (tt < 2 / 3) return p + (q - p) * (2 / 3 - tt) * 6;
+		return p;
+	};
+
+	return [
+		Math.round(channel(hue + 1 / 3) * 255),
+		Math.round(channel(hue) * 255),
+		Math.round(channel(hue - 1 / 3) * 255),
+	];
+}
+
+/**
+ * Parses any supported color format into an RGB triplet.
+ *
+ * @param input - A hex color, an `rgb()`/`hsl()` string, or a CSS color name.
+ * @returns The RGB triplet, or null when the input is not a valid color.
+ */
+export function parseColor(input: string): RGB | null {
+	const color = input.trim().toLowerCase();
+
+	if (Object.hasOwn(cssNamedColors, color)) {
+		return hexToRgb(cssNamedColors[color as CSSColorName]);
+	}
+
+	if (color.startsWith('#')) return hexToRgb(color);
+
+	const rgb = color.match(
+		/^rgb\(\s*(\d{1,3})\s*,\s*(\d{1,3})\s*,\s*(\d{1,3})\s*\)$/,
+	);
+	if (rgb) {
+		const channels = rgb.slice(1).map(Number) as RGB;
+		return channels.every((c) => c <= 255) ? channels : null;
+	}
+
+	const hsl = color.match(
+		/^hsl\(\s*(-?[\d.]+)\s*,\s*([\d.]+)%\s*,\s*([\d.]+)%\s*\)$/,
+	);
+	if (hsl) {
+		const [h, s, l] = hsl.slice(1).map(Number);
+		if (s > 100 || l > 100) return null;
+		return hslToRgb(h, s, l);
+	}
+
+	return null;
+}
+
+function toRgb(color: ColorInput): RGB {
+	const rgb = parseColor(color);
+	if (!rgb) throw new TypeError(`Invalid color "${color}"`);
+	return rgb;
+}
+
+function clamp(value: number, min: number, max: number): number {
+	return Math.min(Math.max(value, min), max);
+}
+
+/**
+ * Makes a color lighter by increasing its HSL lightness.
+ *
+ * @param color - The base color.
+ * @param amount - How much to add to the lightness, from 0 to 1.
+ * @returns The lighter color, as hexadecimal.
+ *
+ * @example
+ * ```typescript
+ * hex(lighten('#336699', 0.2))('text');
+ * ```
+ */
+export function lighten(color: ColorInput, amount: number): hexadecimal {
+	const [h, s, l] = rgbToHsl(toRgb(color));
+	return rgbToHex(hslToRgb(h, s, l + amount * 100));
+}
+
+/**
+ * Makes a color darker by decreasing its HSL lightness.
+ *
+ * @param color - The base color.
+ * @param amount - How much to remove from the lightness, from 0 to 1.
+ * @returns The darker color, as hexadecimal.
+ */
+export function darken(color: ColorInput, amount: number): hexadecimal {
+	return lighten(color, -amount);
+}
+
+/**
+ * Mixes two colors by linear interpolation of their RGB channels.
+ *
+ * @param a - The first color.
+ * @param b - The second color.
+ * @param weight - The share of `b` in the mix, from 0 (only `a`) to 1 (only `b`). Defaults to 0.5.
+ * @returns The mixed color, as hexadecimal.
+ */
+export function mix(
+	a: ColorInput,
+	b: ColorInput,
+	weight: number = 0.5,
+): hexadecimal {
+	const from = toRgb(a);
+	const to = toRgb(b);
+	const w = clamp(weight, 0, 1);
+	return rgbToHex(from.map((c, i) => c + (to[i] - c) * w) as RGB);
+}
+
+/**
+ * Alpha-blends a color over a background, giving the opaque color a
+ * terminal will show for a translucent one.
+ *
+ * @param color - The foreground color.
+ * @param background - The background it is drawn over.
+ * @param alpha - The opacity of the foreground, from 0 to 1.
+ * @returns The blended color, as hexadecimal.
+ *
+ * @example
+ * ```typescript
+ * // A 20% opaque red over the monokai background
+ * bgHex(blend('red', '#272822', 0.2))('error line');
+ * ```
+ */
+export function blend(
+	color: ColorInput,
+	background: ColorInput,
+	alpha: number,
+): hexadecimal {
+	return mix(background, color, alpha);
+}
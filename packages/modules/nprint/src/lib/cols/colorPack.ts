@@ -1,5 +1,26 @@
 import { chalkCSSPolify, ChalkStyleKeys } from './colorPolify';
-import { writePseudoColorLang } from '../lang/pseudoLang';
+import {
+	ColorInput,
+	hexadecimal,
+	hslString,
+	parseColor,
+	rgbString,
+	rgbToHex,
+} from './colorMath';
+import { RGB } from './colorQuantize';
+import { colorStyleName } from './colorStyles';
+import { CSSColorName } from './namedColors';
+import { isStyleAlias, StyleAliases } from './styleAliases';
+import {
+	escapePseudoLang,
+	matchClosingTag,
+	matchOpeningTag,
+	splitByPseudoColorLangTags,
+	unescapePseudoLang,
+	writePseudoColorLang,
+} from '../lang/pseudoLang';
+import { compileTemplate } from '../lang/template';
+import { graphemes } from '../utils/visibleText';
 
 /**
  * @fileoverview This file manages the application of chainable styles to strings
@@ -35,6 +56,16 @@ export class ColorNode {
 	public apply(...content: string[]): string {
 		return writePseudoColorLang(this.styles, content.join(''));
 	}
+
+	/**
+	 * Same as `apply`, but escapes the content first so that raw text
+	 * (user input, log messages...) is never interpreted as style tags.
+	 * @param {...string[]} content - The raw strings to style.
+	 * @returns {string} The styled string in pseudo-language format.
+	 */
+	public applyRaw(...content: string[]): string {
+		return this.apply(...content.map(escapePseudoLang));
+	}
 }
 
 /**
@@ -51,6 +82,10 @@ export class ColorNode {
  * @example
  * const cols = chainFn();
  * const styled = cols.bold.italic("Hello");
+ * const colored = cols.bold.rgb(255, 136, 0)("Hello");
+ * const safe = cols.red.raw(userInput);
+ * const named = cols.error("Failed"); // see `registerStyle`
+ * const tagged = cols.bold`Built {green ${count}} files`; // see `compileTemplate`
  */
 export function chainFn(param?: { styles?: string[] }) {
 	const currentNode = new ColorNode(param);
@@ -58,14 +93,34 @@ export function chainFn(param?: { styles?: string[] }) {
 
 	const P = new Proxy(styleFn, {
 		apply(_target, _thisArg, argumentsList) {
+			const [strings, ...values] = argumentsList;
+			if (Array.isArray(strings) && 'raw' in strings) {
+				// Used as the tag of a template literal
+				return currentNode.apply(compileTemplate(strings, ...values));
+			}
 			return currentNode.apply(...(argumentsList as string[]));
 		},
 		get(target, property) {
-			if (property in chalkCSSPolify) {
+			if (Object.hasOwn(chalkCSSPolify, property)) {
 				// Prepend the new style to the current styles
 				const styles = [property as string, ...currentNode.styles];
 				return chainFn({ styles });
 			}
+			if (Object.hasOwn(colorStyleBuilders, property)) {
+				// Prepend the new color to the current styles
+				const build = colorStyleBuilders[
+					property as keyof typeof colorStyleBuilders
+				] as (...args: unknown[]) => string;
+				return (...args: unknown[]) =>
+					chainFn({ styles: [build(...args), ...currentNode.styles] });
+			}
+			if (property === 'raw') {
+				return (...content: string[]) => currentNode.applyRaw(...content);
+			}
+			if (typeof property === 'string' && isStyleAlias(property)) {
+				// Named styles are kept by name, the renderers resolve them
+				return chainFn({ styles: [property, ...currentNode.styles] });
+			}
 			return (target as any)[property] as any;
 		},
 	});
@@ -80,27 +135,81 @@ export function chainFn(param?: { styles?: string[] }) {
  * It is both a callable function and an object with chaining properties.
  */
 export type ColorChain = {
-	[K in ChalkStyleKeys]: ((...content: string[]) => string) & ColorChain;
+	[K in ChalkStyleKeys | keyof StyleAliases]: StyleCall & ColorChain;
+} & {
+	/** Applies the chain to raw text, escaping anything that looks like a style tag. */
+	raw: (...content: string[]) => string;
+} & ColorMethods;
+
+/**
+ * Applies a chain to strings, joined, or, used as a tag, to a template
+ * literal holding style blocks (see `compileTemplate`).
+ */
+export type StyleCall = {
+	(...content: string[]): string;
+	(strings: TemplateStringsArray, ...values: unknown[]): string;
 };
 
 /**
- * @interface HexChain
+ * @interface ColorMethods
  * @description
- * Represents a chainable object that starts with a hexadecimal style.
+ * The color methods of a chain. Each one adds a color to the chain and
+ * returns a new chain, e.g. `cols.bold.rgb(255, 0, 0)("text")`.
  */
-export type ColorFn = ((...content: string[]) => string) & ColorChain;
+export type ColorMethods = {
+	hex(hexadecimal: hexadecimal): ColorFn;
+	bgHex(hexadecimal: hexadecimal): ColorFn;
+	rgb(...color: RgbArgs): ColorFn;
+	bgRgb(...color: RgbArgs): ColorFn;
+	hsl(...color: HslArgs): ColorFn;
+	bgHsl(...color: HslArgs): ColorFn;
+	ansi256(index: number): ColorFn;
+	bgAnsi256(index: number): ColorFn;
+	named(name: CSSColorName): ColorFn;
+	bgNamed(name: CSSColorName): ColorFn;
+};
+
+/** Arguments of the rgb helpers: three channels (0-255) or an `rgb()` string. */
+type RgbArgs = [r: number, g: number, b: number] | [color: rgbString];
 
-type hex = number | string;
+/** Arguments of the hsl helpers: hue (degrees), saturation and lightness (percents), or an `hsl()` string. */
+type HslArgs = [h: number, s: number, l: number] | [color: hslString];
 
 /**
- * @typedef {string} hexadecimal
+ * Extracts the three numbers of an `rgb()`/`hsl()` string, or passes
+ * the numeric arguments through.
+ */
+function colorValue(args: RgbArgs | HslArgs): string {
+	const numbers =
+		typeof args[0] === 'string'
+			? (args[0].match(/-?[\d.]+/g) ?? []).map(Number)
+			: (args as number[]);
+	return numbers.join(',');
+}
+
+/**
+ * Builders of the pseudo-language color styles, keyed by the chain method
+ * they back.
+ */
+const colorStyleBuilders = {
+	hex: (hexadecimal: hexadecimal) => 'hex' + hexadecimal,
+	bgHex: (hexadecimal: hexadecimal) => 'bgHex' + hexadecimal,
+	rgb: (...color: RgbArgs) => colorStyleName('rgb', colorValue(color)),
+	bgRgb: (...color: RgbArgs) => colorStyleName('bgRgb', colorValue(color)),
+	hsl: (...color: HslArgs) => colorStyleName('hsl', colorValue(color)),
+	bgHsl: (...color: HslArgs) => colorStyleName('bgHsl', colorValue(color)),
+	ansi256: (index: number) => colorStyleName('ansi256', String(index)),
+	bgAnsi256: (index: number) => colorStyleName('bgAnsi256', String(index)),
+	named: (name: CSSColorName) => colorStyleName('named', name),
+	bgNamed: (name: CSSColorName) => colorStyleName('bgNamed', name),
+};
+
+/**
+ * @interface HexChain
  * @description
- * A utility type for 3 or 6-digit hexadecimal color formats,
- * prefixed with '#'.
+ * Represents a chainable object that starts with a hexadecimal style.
  */
-type hexadecimal =
-	| `#${hex}${hex}${hex}`
-	| `#${hex}${hex}${hex}${hex}${hex}${hex}`;
+export type ColorFn = StyleCall & ColorChain;
 
 /**
  * @constant cols
@@ -110,6 +219,20 @@ type hexadecimal =
  */
 export const cols = chainFn() as unknown as ColorChain;
 
+/**
+ * @constant t
+ * @description
+ * A tag compiling the style blocks of a template literal, values being
+ * escaped. Chaining first, as in ``t.red`…` ``, styles the whole template
+ * with type-checked names.
+ * @type {ColorFn}
+ *
+ * @example
+ * t`Build {green.bold passed} in {hex#888 ${ms}ms}`;
+ * t.bold`Hello {cyan ${user.name}}`;
+ */
+export const t = chainFn() as unknown as ColorFn;
+
 /**
  * @function hex
  * @description
@@ -118,7 +241,7 @@ export const cols = chainFn() as unknown as ColorChain;
  * @returns {HexChain} A chainable object.
  */
 export function hex(hexadecimal: hexadecimal) {
-	const hexFn = chainFn({ styles: ['hex' + hexadecimal] });
+	const hexFn = chainFn({ styles: [colorStyleBuilders.hex(hexadecimal)] });
 	return hexFn as unknown as ColorFn;
 }
 
@@ -130,6 +253,245 @@ export function hex(hexadecimal: hexadecimal) {
  * @returns {HexChain} A chainable object.
  */
 export function bgHex(hexadecimal: hexadecimal) {
-	const hexFn = chainFn({ styles: ['bgHex' + hexadecimal] });
+	const hexFn = chainFn({ styles: [colorStyleBuilders.bgHex(hexadecimal)] });
 	return hexFn as unknown as ColorFn;
 }
+
+/**
+ * @function rgb
+ * @description
+ * Creates a style chain that starts with an RGB color.
+ * @param {...RgbArgs} color - Three channels from 0 to 255, or an `rgb()` string.
+ * @returns {ColorFn} A chainable object.
+ * @example
+ * rgb(255, 136, 0)("orange");
+ * rgb("rgb(255, 136, 0)").bold("bold orange");
+ */
+export function rgb(...color: RgbArgs) {
+	const rgbFn = chainFn({ styles: [colorStyleBuilders.rgb(...color)] });
+	return rgbFn as unknown as ColorFn;
+}
+
+/**
+ * @function bgRgb
+ * @description
+ * Creates a style chain that starts with an RGB background color.
+ * @param {...RgbArgs} color - Three channels from 0 to 255, or an `rgb()` string.
+ * @returns {ColorFn} A chainable object.
+ */
+export function bgRgb(...color: RgbArgs) {
+	const rgbFn = chainFn({ styles: [colorStyleBuilders.bgRgb(...color)] });
+	return rgbFn as unknown as ColorFn;
+}
+
+/**
+ * @function hsl
+ * @description
+ * Creates a style chain that starts with an HSL color.
+ * @param {...HslArgs} color - Hue in degrees, saturation and lightness in percents, or an `hsl()` string.
+ * @returns {ColorFn} A chainable object.
+ * @example
+ * hsl(210, 50, 40)("steel blue");
+ */
+export function hsl(...color: HslArgs) {
+	const hslFn = chainFn({ styles: [colorStyleBuilders.hsl(...color)] });
+	return hslFn as unknown as ColorFn;
+}
+
+/**
+ * @function bgHsl
+ * @description
+ * Creates a style chain that starts with an HSL background color.
+ * @param {...HslArgs} color - Hue in degrees, saturation and lightness in percents, or an `hsl()` string.
+ * @returns {ColorFn} A chainable object.
+ */
+export function bgHsl(...color: HslArgs) {
+	const hslFn = chainFn({ styles: [colorStyleBuilders.bgHsl(...color)] });
+	return hslFn as unknown as ColorFn;
+}
+
+/**
+ * @function ansi256
+ * @description
+ * Creates a style chain that starts with a color of the xterm 256-color palette.
+ * @param {number} index - The palette index, from 0 to 255.
+ * @returns {ColorFn} A chainable object.
+ */
+export function ansi256(index: number) {
+	const ansiFn = chainFn({ styles: [colorStyleBuilders.ansi256(index)] });
+	return ansiFn as unknown as ColorFn;
+}
+
+/**
+ * @function bgAnsi256
+ * @description
+ * Creates a style chain that starts with a background color of the xterm 256-color palette.
+ * @param {number} index - The palette index, from 0 to 255.
+ * @returns {ColorFn} A chainable object.
+ */
+export function bgAnsi256(index: number) {
+	const ansiFn = chainFn({ styles: [colorStyleBuilders.bgAnsi256(index)] });
+	return ansiFn as unknown as ColorFn;
+}
+
+/**
+ * @function named
+ * @description
+ * Creates a style chain that starts with a CSS named color.
+ * @param {CSSColorName} name - The color name (e.g., "rebeccapurple").
+ * @returns {ColorFn} A chainable object.
+ */
+export function named(name: CSSColorName) {
+	const namedFn = chainFn({ styles: [colorStyleBuilders.named(name)] });
+	return namedFn as unknown as ColorFn;
+}
+
+/**
+ * @function bgNamed
+ * @description
+ * Creates a style chain that starts with a CSS named background color.
+ * @param {CSSColorName} name - The color name (e.g., "rebeccapurple").
+ * @returns {ColorFn} A chainable object.
+ */
+export function bgNamed(name: CSSColorName) {
+	const namedFn = chainFn({ styles: [colorStyleBuilders.bgNamed(name)] });
+	return namedFn as unknown as ColorFn;
+}
+
+/**
+ * @constant gradientPresets
+ * @description
+ * Ready-made color stops for `gradient`, e.g. `gradient('rainbow')`.
+ */
+export const gradientPresets = {
+	rainbow: [
+		'#ff0000',
+		'#ff7f00',
+		'#ffff00',
+		'#00ff00',
+		'#0000ff',
+		'#4b0082',
+		'#8b00ff',
+	],
+	sunset: ['#ff512f', '#f09819', '#dd2476'],
+	ocean: ['#2e3192', '#1bffff'],
+	fire: ['#f12711', '#f5af19'],
+	forest: ['#134e5e', '#71b280'],
+	pastel: ['#74ebd5', '#9face6', '#fbc2eb'],
+} satisfies Record<string, ColorInput[]>;
+
+export type GradientPreset = keyof typeof gradientPresets;
+
+export interface GradientOptions {
+	/**
+	 * How the colors are spread:
+	 * - `"chars"`: one color per visible character, across the whole text (default).
+	 * - `"lines"`: one color per line, for multi-line blocks.
+	 */
+	mode?: 'chars' | 'lines';
+}
+
+/**
+ * @function gradient
+ * @description
+ * Creates a function coloring text with a gradient interpolated between
+ * color stops. Existing tags are kept as they are, so a gradient can be
+ * applied over already styled text: it replaces the text color and keeps
+ * the other styles. Whitespace is not colored but takes its share of the
+ * gradient.
+ * @param {ColorInput[] | GradientPreset} colors - The color stops, or the name of a preset.
+ * @param {GradientOptions} [options] - Gradient options.
+ * @returns {(...content: string[]) => string} A function producing pseudo-language.
+ * @throws {TypeError} When no color is given or a color is invalid.
+ * @example
+ * gradient(['#ff0000', '#0000ff'])("Deploying...");
+ * gradient('rainbow', { mode: 'lines' })(banner);
+ */
+export function gradient(
+	colors: ColorInput[] | GradientPreset,
+	options?: GradientOptions,
+) {
+	const stops = (
+		typeof colors === 'string' ? gradientPresets[colors] : colors
+	).map((color) => {
+		const rgb = parseColor(color);
+		if (!rgb) throw new TypeError(`Invalid color "${color}"`);
+		return rgb;
+	});
+	if (stops.length === 0) {
+		throw new TypeError('A gradient needs at least one color');
+	}
+	const mode = options?.mode ?? 'chars';
+
+	return (...content: string[]) => applyGradient(stops, mode, content.join(''));
+}
+
+/**
+ * Colors the text segments of a pseudo-language string, leaving its tags
+ * untouched. Consecutive characters sharing a color share a tag.
+ */
+function applyGradient(
+	stops: RGB[],
+	mode: 'chars' | 'lines',
+	text: string,
+): string {
+	const segments = splitByPseudoColorLangTags(text).map((segment) => ({
+		segment,
+		isTag: matchOpeningTag(segment) !== null || matchClosingTag(segment),
+	}));
+
+	const plain = segments
+		.filter(({ isTag }) => !isTag)
+		.map(({ segment }) => unescapePseudoLang(segment))
+		.join('');
+	const lineCount = plain.split('\n').length;
+	const charCount = graphemes(plain).filter((g) => g !== '\n').length;
+	const steps = mode === 'lines' ? lineCount : charCount;
+
+	let line = 0;
+	let char = 0;
+	return segments
+		.map(({ segment, isTag }) => {
+			if (isTag) return segment;
+
+			const runs: { color: string | null; text: string }[] = [];
+			for (const grapheme of graphemes(unescapePseudoLang(segment))) {
+				let color: string | null = null;
+				if (grapheme === '\n') {
+					line++;
+				} else {
+					const position = mode === 'lines' ? line : char++;
+					if (grapheme.trim() !== '') {
+						color = rgbToHex(colorAt(stops, position, steps));
+					}
+				}
+
+				const last = runs[runs.length - 1];
+				if (last && last.color === color) last.text += grapheme;
+				else runs.push({ color, text: grapheme });
+			}
+
+			return runs
+				.map(({ color, text }) => {
+					const escaped = escapePseudoLang(text);
+					return color
+						? writePseudoColorLang(['hex' + color], escaped)
+						: escaped;
+				})
+				.join('');
+		})
+		.join('');
+}
+
+/**
+ * Interpolates the color of a step of a gradient spread over `steps` steps.
+ */
+function colorAt(stops: RGB[], step: number, steps: number): RGB {
+	if (stops.length === 1 || steps <= 1) return stops[0];
+
+	const t = (step / (steps - 1)) * (stops.length - 1);
+	const index = Math.min(Math.floor(t), stops.length - 2);
+	const weight = t - index;
+	const [from, to] = [stops[index], stops[index + 1]];
+	return from.map((c, i) => c + (to[i] - c) * weight) as RGB;
+}
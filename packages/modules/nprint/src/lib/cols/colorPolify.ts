@@ -1,4 +1,5 @@
 import chalk from 'chalk';
+import { parseColorStyle } from './colorStyles';
 
 /**
  * A partial mapping of chalk styling methods to their corresponding CSS styles.
@@ -127,3 +128,34 @@ export type ChalkStyleKeys =
 	| 'bgMagentaBright'
 	| 'bgCyanBright'
 	| 'bgWhiteBright';
+
+/**
+ * Resolves a single pseudo-language style name into its CSS declaration.
+ *
+ * Handles the chalk style keys through `chalkCSSPolify` as well as the
+ * color styles (`hex#…`, `bgRgb#…`, `hsl#…`, `ansi256#…`, `named#…`...).
+ *
+ * @param style - The style name carried by a styled node (e.g. "red", "hex#ff0000").
+ * @returns The CSS declaration, or an empty string when the style is unknown.
+ *
+ * @example
+ * ```typescript
+ * styleToCSS('bold'); // "font-weight: bold;"
+ * styleToCSS('bgHex#333'); // "background-color: #333;"
+ * ```
+ */
+export function styleToCSS(style: string): string {
+	// Own keys only, so `constructor` or `toString` are not styles
+	const polyfilled = Object.hasOwn(chalkCSSPolify, style)
+		? chalkCSSPolify[style as ChalkStyleKeys]
+		: undefined;
+	if (typeof polyfilled === 'string') return polyfilled;
+
+	const color = parseColorStyle(style);
+	if (color) {
+		const property = color.target === 'bg' ? 'background-color' : 'color';
+		return `${property}: ${color.css};`;
+	}
+
+	return '';
+}
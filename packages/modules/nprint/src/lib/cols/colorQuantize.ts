@@ -0,0 +1,124 @@
+/**
+ * @fileoverview Quantization of 24-bit colors into the terminal palettes,
+ * used when the renderer runs with fewer than truecolor.
+ */
+
+import { ChalkStyleKeys } from './colorPolify';
+
+export type RGB = [number, number, number];
+
+/**
+ * The basic 16 ANSI colors, in palette order, with their usual xterm values.
+ */
+export const ansi16Palette: { name: ChalkStyleKeys; rgb: RGB }[] = [
+	{ name: 'black', rgb: [0, 0, 0] },
+	{ name: 'red', rgb: [205, 0, 0] },
+	{ name: 'green', rgb: [0, 205, 0] },
+	{ name: 'yellow', rgb: [205, 205, 0] },
+	{ name: 'blue', rgb: [0, 0, 238] },
+	{ name: 'magenta', rgb: [205, 0, 205] },
+	{ name: 'cyan', rgb: [0, 205, 205] },
+	{ name: 'white', rgb: [229, 229, 229] },
+	{ name: 'blackBright', rgb: [127, 127, 127] },
+	{ name: 'redBright', rgb: [255, 0, 0] },
+	{ name: 'greenBright', rgb: [0, 255, 0] },
+	{ name: 'yellowBright', rgb: [255, 255, 0] },
+	{ name: 'blueBright', rgb: [92, 92, 255] },
+	{ name: 'magentaBright', rgb: [255, 0, 255] },
+	{ name: 'cyanBright', rgb: [0, 255, 255] },
+	{ name: 'whiteBright', rgb: [255, 255, 255] },
+];
+
+const cubeSteps = [0, 95, 135, 175, 215, 255];
+
+/**
+ * The xterm 256-color palette: the 16 basic colors, the 6×6×6 color cube,
+ * and the 24-step grayscale ramp.
+ */
+export const ansi256Palette: RGB[] = (() => {
+	const palette: RGB[] = ansi16Palette.map(({ rgb }) => rgb);
+	for (let r = 0; r < 6; r++) {
+		for (let g = 0; g < 6; g++) {
+			for (let b = 0; b < 6; b++) {
+				palette.push([cubeSteps[r], cubeSteps[g], cubeSteps[b]]);
+			}
+		}
+	}
+	for (let i = 0; i < 24; i++) {
+		const gray = 8 + i * 10;
+		palette.push([gray, gray, gray]);
+	}
+	return palette;
+})();
+
+/**
+ * Converts a 3 or 6-digit hexadecimal color (with or without `#`) into RGB.
+ *
+ * @param hexadecimal - The color, e.g. "#ff8800" or "f80".
+ * @returns The RGB triplet, or null when the input is not a valid hex color.
+ */
+export function hexToRgb(hexadecimal: string): RGB | null {
+	const match = hexadecimal.match(/^#?([0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/);
+	if (!match) return null;
+
+	let digits = match[1];
+	if (digits.length === 3) {
+		digits = digits
+			.split('')
+			.map((d) => d + d)
+			.join('');
+	}
+
+	const value = Number.parseInt(digits, 16);
+	return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+/**
+ * Perceptual ("redmean") distance between two colors, cheap and close
+ * enough to CIE distances for palette lookups.
+ */
+function colorDistance(a: RGB, b: RGB): number {
+	const redMean = (a[0] + b[0]) / 2;
+	const dr = a[0] - b[0];
+	const dg = a[1] - b[1];
+	const db = a[2] - b[2];
+	return (
+		(2 + redMean / 256) * dr * dr +
+		4 * dg * dg +
+		(2 + (255 - redMean) / 256) * db * db
+	);
+}
+
+function nearestIndex(rgb: RGB, palette: RGB[]): number {
+	let best = 0;
+	let bestDistance = Infinity;
+	palette.forEach((candidate, index) => {
+		const distance = colorDistance(rgb, candidate);
+		if (distance < bestDistance) {
+			best = index;
+			bestDistance = distance;
+		}
+	});
+	return best;
+}
+
+/**
+ * Finds the xterm 256-color palette index closest to a color.
+ *
+ * @param rgb - The color to quantize.
+ * @returns The palette index, from 0 to 255.
+ */
+export function nearestAnsi256(rgb: RGB): number {
+	return nearestIndex(rgb, ansi256Palette);
+}
+
+/**
+ * Finds the basic ANSI color closest to a color.
+ *
+ * @param rgb - The color to quantize.
+ * @returns The chalk name of the foreground color (e.g. "redBright").
+ */
+export function nearestAnsi16(rgb: RGB): ChalkStyleKeys {
+	const palette = ansi16Palette.map(({ rgb }) => rgb);
+	return ansi16Palette[nearestIndex(rgb, palette)].name;
+}
@@ -0,0 +1,146 @@
+import { hslToRgb, rgbToHex } from './colorMath';
+import { ansi256Palette, hexToRgb, RGB } from './colorQuantize';
+import { CSSColorName, cssNamedColors } from './namedColors';
+
+/**
+ * @fileoverview Color styles of the pseudo-language. A color style is a
+ * prefix naming the color format and its target, followed by `#` and the
+ * value, e.g. `hex#ff0000`, `bgRgb#255,0,0`, `hsl#210,50,40`,
+ * `ansi256#196` or `named#rebeccapurple`.
+ */
+
+/**
+ * The color style prefixes, mapped to the layer they color.
+ */
+export const colorStylePrefixes = {
+	hex: 'fg',
+	bgHex: 'bg',
+	rgb: 'fg',
+	bgRgb: 'bg',
+	hsl: 'fg',
+	bgHsl: 'bg',
+	ansi256: 'fg',
+	bgAnsi256: 'bg',
+	named: 'fg',
+	bgNamed: 'bg',
+} as const;
+
+export type ColorStylePrefix = keyof typeof colorStylePrefixes;
+
+/**
+ * A color style resolved into the values the renderers need.
+ */
+export interface ColorStyle {
+	prefix: ColorStylePrefix;
+	/** Whether the color applies to the text (`fg`) or its background (`bg`). */
+	target: 'fg' | 'bg';
+	rgb: RGB;
+	/** The color as a CSS value. */
+	css: string;
+	/** The exact palette index, for `ansi256` styles. */
+	ansi256?: number;
+}
+
+/**
+ * Builds the pseudo-language style name of a color.
+ *
+ * @param prefix - The color format and target, e.g. "bgRgb".
+ * @param value - The color value, e.g. "255,0,0".
+ * @returns The style name, e.g. "bgRgb#255,0,0".
+ */
+export function colorStyleName(prefix: ColorStylePrefix, value: string) {
+	return `${prefix}#${value}`;
+}
+
+/**
+ * Tells whether a style name uses one of the color style prefixes,
+ * regardless of the validity of its value.
+ */
+export function isColorStyle(style: string): boolean {
+	const prefix = style.slice(0, style.indexOf('#'));
+	return Object.hasOwn(colorStylePrefixes, prefix);
+}
+
+/**
+ * Resolves a color style name into its RGB and CSS values.
+ *
+ * @param style - The style name, e.g. "hex#ff0000" or "bgAnsi256#196".
+ * @returns The resolved color, or null when the style is not a valid color style.
+ *
+ * @example
+ * ```typescript
+ * parseColorStyle('bgRgb#255,0,0');
+ * // { prefix: 'bgRgb', target: 'bg', rgb: [255, 0, 0], css: 'rgb(255, 0, 0)' }
+ * ```
+ */
+export function parseColorStyle(style: string): ColorStyle | null {
+	const separator = style.indexOf('#');
+	if (separator < 0) return null;
+
+	const prefix = style.slice(0, separator) as ColorStylePrefix;
+	const value = style.slice(separator + 1);
+	if (!Object.hasOwn(colorStylePrefixes, prefix)) return null;
+
+	const target = colorStylePrefixes[prefix];
+	const resolved = resolveValue(prefix, value);
+	return resolved ? { prefix, target, ...resolved } : null;
+}
+
+function resolveValue(
+	prefix: ColorStylePrefix,
+	value: string,
+): Pick<ColorStyle, 'rgb' | 'css' | 'ansi256'> | null {
+	switch (prefix) {
+		case 'hex':
+		case 'bgHex': {
+			if (!/^([0-9a-fA-F]{3}){1,2}$/.test(value)) return null;
+			const rgb = hexToRgb(value);
+			return rgb && { rgb, css: `#${value}` };
+		}
+		case 'rgb':
+		case 'bgRgb': {
+			const channels = parseNumbers(value);
+			if (
+				!channels ||
+				!channels.every((c) => Number.isInteger(c) && c >= 0 && c <= 255)
+			) {
+				return null;
+			}
+			const [r, g, b] = channels;
+			return { rgb: [r, g, b], css: `rgb(${r}, ${g}, ${b})` };
+		}
+		case 'hsl':
+		case 'bgHsl': {
+			const channels = parseNumbers(value);
+			if (!channels) return null;
+			const [h, s, l] = channels;
+			if (s < 0 || s > 100 || l < 0 || l > 100) return null;
+			return { rgb: hslToRgb(h, s, l), css: `hsl(${h}, ${s}%, ${l}%)` };
+		}
+		case 'ansi256':
+		case 'bgAnsi256': {
+			const index = Number(value);
+			if (!/^\d{1,3}$/.test(value) || index > 255) return null;
+			const rgb = ansi256Palette[index];
+			return { rgb, css: rgbToHex(rgb), ansi256: index };
+		}
+		case 'named':
+		case 'bgNamed': {
+			if (!Object.hasOwn(cssNamedColors, value)) return null;
+			const rgb = hexToRgb(cssNamedColors[value as CSSColorName]);
+			return rgb && { rgb, css: value };
+		}
+	}
+}
+
+/**
+ * Parses the three comma-separated numbers of an `rgb`/`hsl` style value.
+ */
+function parseNumbers(value: string): [number, number, number] | null {
+	const parts = value.split(',');
+	if (parts.length !== 3 || parts.some((p) => p.trim() === '')) return null;
+	const numbers = parts.map(Number);
+	return numbers.every(Number.isFinite)
+		? (numbers as [number, number, number])
+		: null;
+}
@@ -0,0 +1,248 @@
+import { hexadecimal } from './colorMath';
+import { chalkCSSPolify } from './colorPolify';
+import {
+	colorStylePrefixes,
+	isColorStyle,
+	parseColorStyle,
+} from './colorStyles';
+
+/**
+ * @fileoverview Named styles, such as `error` or `brand`, standing for a
+ * list of styles, a hex color or a styling function. The pseudo-language
+ * carries the name, and the renderers resolve it with the active palette,
+ * so switching palettes restyles text that was already built.
+ */
+
+/**
+ * What a named style stands for:
+ * - a list of styles, e.g. `['red', 'bold']` or `['hex#f5a623']`, that may
+ *   name other registered styles;
+ * - a hex color, e.g. `'#f5a623'`;
+ * - a function styling its input, e.g. `cols.red.bold` or `gradient('ocean')`.
+ */
+export type StyleAlias =
+	string[] | hexadecimal | ((...content: string[]) => string);
+
+/**
+ * The named styles, usable as `cols.<name>`. Styles added with
+ * `registerStyle` are typed by extending this interface:
+ *
+ * ```ts
+ * declare module '@monitext/nprint' {
+ *   interface StyleAliases {
+ *     brand: StyleAlias;
+ *   }
+ * }
+ * ```
+ */
+export interface StyleAliases {
+	error: StyleAlias;
+	warn: StyleAlias;
+	success: StyleAlias;
+	info: StyleAlias;
+	muted: StyleAlias;
+}
+
+export type StyleAliasName = keyof StyleAliases;
+
+/**
+ * The built-in palettes. Others can be added with `registerPalette`.
+ */
+export type PaletteName = 'dark' | 'light' | 'highContrast';
+
+type Palette = Record<string, StyleAlias>;
+
+const palettes: Record<string, Palette> = {
+	dark: {
+		error: ['redBright', 'bold'],
+		warn: '#f5a623',
+		success: ['greenBright'],
+		info: ['cyanBright'],
+		muted: ['gray'],
+	},
+	light: {
+		error: ['red', 'bold'],
+		warn: '#b36b00',
+		success: ['green'],
+		info: ['blue'],
+		muted: '#6e7781',
+	},
+	highContrast: {
+		error: ['bgRed', 'whiteBright', 'bold'],
+		warn: ['bgYellowBright', 'black', 'bold'],
+		success: ['bgGreenBright', 'black', 'bold'],
+		info: ['bgCyanBright', 'black', 'bold'],
+		muted: ['white'],
+	},
+};
+
+/** The styles registered for every palette, which palettes override. */
+const sharedStyles: Palette = {};
+
+let activePalette = 'dark';
+
+/**
+ * A step of a resolved named style: a style name the renderers know, or a
+ * function applied to the styled content.
+ */
+export type ResolvedStyle = string | ((...content: string[]) => string);
+
+/**
+ * Adds a named style, or replaces one, for every palette. Palettes defining
+ * the same name keep their own version.
+ *
+ * @param name - The name of the style, used as `cols.<name>` and in markup.
+ * @param style - A list of styles, a hex color or a styling function.
+ * @throws When the name is taken by a built-in style or a function member
+ * such as "call", or the list holds unknown styles.
+ *
+ * @example
+ * ```ts
+ * registerStyle('brand', ['hex#6c5ce7', 'bold']);
+ * cols.brand('nprint');
+ * ```
+ */
+export function registerStyle<N extends string>(
+	name: N,
+	style: StyleAlias,
+): void {
+	validateName(name);
+	validateAlias(style);
+	sharedStyles[name] = style;
+}
+
+/**
+ * Adds a palette, or extends one, with named styles.
+ *
+ * @param name - The name of the palette, for `usePalette`.
+ * @param styles - The named styles of the palette.
+ * @throws When a name is taken by a built-in style or a function member
+ * such as "call", or a list holds unknown styles.
+ *
+ * @example
+ * ```ts
+ * registerPalette('solarized', { error: '#dc322f', muted: ['hex#93a1a1'] });
+ * usePalette('solarized');
+ * ```
+ */
+export function registerPalette<N extends string>(
+	name: N,
+	styles: Partial<Record<StyleAliasName, StyleAlias>> & Palette,
+): void {
+	for (const [styleName, style] of Object.entries(styles)) {
+		validateName(styleName);
+		validateAlias(style);
+	}
+	palettes[name] = { ...palettes[name], ...styles };
+}
+
+/**
+ * Switches the palette the named styles are resolved with. Text already
+ * built with named styles renders with the new palette.
+ *
+ * @param name - A built-in palette ("dark", the default, "light" or
+ * "highContrast") or one added with `registerPalette`.
+ * @throws When the palette does not exist.
+ */
+export function usePalette(name: PaletteName | (string & {})): void {
+	if (!Object.hasOwn(palettes, name))
+		throw new Error(`Unknown palette "${name}"`);
+	activePalette = name;
+}
+
+/**
+ * Returns the name of the active palette.
+ */
+export function currentPalette(): string {
+	return activePalette;
+}
+
+/**
+ * Tells whether a name is a named style of any palette.
+ *
+ * @internal
+ */
+export function isStyleAlias(name: string): boolean {
+	return (
+		Object.hasOwn(sharedStyles, name) ||
+		Object.values(palettes).some((palette) => Object.hasOwn(palette, name))
+	);
+}
+
+/**
+ * Resolves a named style with the active palette, named styles in lists
+ * being resolved in turn.
+ *
+ * @internal
+ * @param name - The name of the style.
+ * @param seen - The names being resolved, so that cycles stop.
+ * @returns The steps the style stands for, in precedence order, or null
+ * when the active palette does not define it.
+ */
+export function resolveStyleAlias(
+	name: string,
+	seen: string[] = [],
+): ResolvedStyle[] | null {
+	const palette = palettes[activePalette];
+	const style = Object.hasOwn(palette, name)
+		? palette[name]
+		: Object.hasOwn(sharedStyles, name)
+			? sharedStyles[name]
+			: undefined;
+	if (style === undefined || seen.includes(name)) return null;
+
+	if (typeof style === 'function') return [style];
+	if (typeof style === 'string') return ['hex' + style];
+
+	return style.flatMap((entry) =>
+		isStyleAlias(entry)
+			? (resolveStyleAlias(entry, [...seen, name]) ?? [])
+			: [entry],
+	);
+}
+
+/**
+ * The members every function has. Style chains are functions, so
+ * `cols.<name>` could not reach a style with one of these names.
+ */
+const functionMembers = new Set([
+	'call',
+	'apply',
+	'bind',
+	'name',
+	'length',
+	'prototype',
+]);
+
+function validateName(name: string) {
+	if (!/^[a-zA-Z][\w-]*$/.test(name)) {
+		throw new Error(`Invalid style name "${name}"`);
+	}
+	if (
+		Object.hasOwn(chalkCSSPolify, name) ||
+		Object.hasOwn(colorStylePrefixes, name) ||
+		name === 'raw'
+	) {
+		throw new Error(`"${name}" is a built-in style`);
+	}
+	if (functionMembers.has(name)) {
+		throw new Error(`"${name}" is reserved by style chains`);
+	}
+}
+
+function validateAlias(style: StyleAlias) {
+	if (typeof style === 'function') return;
+	if (typeof style === 'string') {
+		if (!parseColorStyle('hex' + style)) {
+			throw new Error(`Malformed hex color "${style}"`);
+		}
+		return;
+	}
+	for (const entry of style) {
+		const known =
+			Object.hasOwn(chalkCSSPolify, entry) ||
+			(isColorStyle(entry) && parseColorStyle(entry) !== null) ||
+			isStyleAlias(entry);
+		if (!known) throw new Error(`Unknown style "${entry}"`);
+	}
+}
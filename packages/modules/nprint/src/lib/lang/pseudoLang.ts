@@ -5,7 +5,7 @@
 
 /**
  * Generates an opening tag for the pseudo-language style.
- * @param style - A string representing the style to be applied (e.g., "red", "bold").
+ * @param style - A string representing the style to be applied (e.g., "red", "red bold").
  * @returns A string representing the opening tag with the specified style.
  */
 function openingTag(style: string): string {
@@ -20,6 +20,44 @@ function closingTag(): string {
 	return `[[/mtxt-style]]`;
 }
 
+/**
+ * The sequence standing for a literal `[` in escaped text.
+ * Once every `[` of a text is replaced by it, no tag can be formed from that text.
+ */
+const escapedBracket = '[mtxt-esc]';
+
+/**
+ * Escapes a raw string so it can be embedded in pseudo-language markup
+ * without being interpreted as style tags.
+ * Every `[` is replaced by an escape sequence that the parser turns back
+ * into the literal character.
+ *
+ * @param text - The raw, possibly untrusted, text.
+ * @returns The escaped text.
+ *
+ * @example
+ * ```typescript
+ * const input = "[[/mtxt-style]]";
+ * const result = escapePseudoLang(input);
+ * console.log(result);
+ * // Output: "[mtxt-esc][mtxt-esc]/mtxt-style]]"
+ * ```
+ */
+export function escapePseudoLang(text: string): string {
+	return text.replaceAll('[', escapedBracket);
+}
+
+/**
+ * Reverts `escapePseudoLang`, turning escape sequences back into `[`.
+ * Applied by the parser to every text segment.
+ *
+ * @param text - A text segment, free of style tags.
+ * @returns The literal text.
+ */
+export function unescapePseudoLang(text: string): string {
+	return text.replaceAll(escapedBracket, '[');
+}
+
 /**
  * Splits a given text into an array of strings based on pseudo-language tags.
  * The function identifies and separates sections of the text that are enclosed
@@ -90,7 +128,8 @@ export function matchClosingTag(text: string): boolean {
 	return /\[\[\/mtxt-style\]\]/.test(text);
 }
 
-/** Wraps the given text with pseudo-language style tags based on the provided styles.
+/** Wraps the given text with a single compound pseudo-language tag carrying all the provided styles.
+ * When styles conflict (e.g. two colors), the first one takes precedence.
  * @param styles - An array of style strings to be applied (e.g., ["red", "bold"]).
  * @param text - The text to be wrapped with the pseudo-language tags.
  * @returns A string with the text wrapped in the appropriate opening and closing pseudo-language tags.
@@ -105,12 +144,9 @@ export function matchClosingTag(text: string): boolean {
  * ```
  */
 export function writePseudoColorLang(styles: string[], text: string): string {
-	const styling = styles.map((s) => s.trim());
-	let result = text;
-	for (const style of styling) {
-		result = wrap(result, style);
-	}
-	return result;
+	const styling = styles.map((s) => s.trim()).filter((s) => s.length > 0);
+	if (styling.length === 0) return text;
+	return wrap(text, styling.join(' '));
 }
 
 function wrap(text: string, style: string) {
@@ -1,7 +1,17 @@
+import { chalkCSSPolify } from '../cols/colorPolify';
+import { isColorStyle, parseColorStyle } from '../cols/colorStyles';
 import {
+	currentPalette,
+	isStyleAlias,
+	resolveStyleAlias,
+} from '../cols/styleAliases';
+import {
+	escapePseudoLang,
 	matchClosingTag,
 	matchOpeningTag,
 	splitByPseudoColorLangTags,
+	unescapePseudoLang,
+	writePseudoColorLang,
 } from './pseudoLang';
 
 /**
@@ -16,7 +26,11 @@ export interface TextNode {
 
 export interface StyledNode {
 	type: 'styled';
-	style: string;
+	/**
+	 * The styles carried by the tag, in precedence order: when two styles
+	 * conflict (e.g. two colors), the first one wins.
+	 */
+	styles: string[];
 	children: Array<TextNode | StyledNode>;
 }
 
@@ -24,13 +38,102 @@ export type Node = TextNode | StyledNode;
 
 export type NodeList = Node[];
 
+export type ParseDiagnosticKind =
+	| 'unmatched-closing'
+	| 'unclosed-opening'
+	| 'unknown-style'
+	| 'malformed-hex'
+	| 'malformed-color';
+
+/**
+ * A problem found while parsing pseudo-language markup.
+ */
+export interface ParseDiagnostic {
+	kind: ParseDiagnosticKind;
+	message: string;
+	/** Offset, in UTF-16 code units, of the offending tag in the input. */
+	offset: number;
+	/** Length of the offending tag. */
+	length: number;
+	/** The style involved: the faulty one, or the whole tag for `unclosed-opening`. */
+	style?: string;
+}
+
+export interface ParseOptions {
+	/** Collects diagnostics and returns them alongside the nodes. */
+	diagnostics?: boolean;
+	/** Throws a `PseudoLangSyntaxError` instead of guessing on malformed input. */
+	strict?: boolean;
+}
+
+export interface ParseResult {
+	nodes: NodeList;
+	diagnostics: ParseDiagnostic[];
+}
+
+/**
+ * Error thrown by `pseudoLangToTree` in strict mode.
+ * Carries every diagnostic found in the input.
+ */
+export class PseudoLangSyntaxError extends Error {
+	diagnostics: ParseDiagnostic[];
+
+	constructor(diagnostics: ParseDiagnostic[]) {
+		super(
+			diagnostics.map((d) => `${d.message} (at offset ${d.offset})`).join('\n'),
+		);
+		this.name = 'PseudoLangSyntaxError';
+		this.diagnostics = diagnostics;
+	}
+}
+
+const diagnosticMessages = {
+	'unknown-style': (style: string) =>
+		isStyleAlias(style)
+			? `Style "${style}" is not defined in the "${currentPalette()}" palette`
+			: `Unknown style "${style}"`,
+	'malformed-hex': (style: string) => `Malformed hex color "${style}"`,
+	'malformed-color': (style: string) => `Malformed color "${style}"`,
+};
+
+/**
+ * Checks a style name against the styles the renderers understand, named
+ * styles included.
+ * @param style - The style carried by an opening tag.
+ * @returns The kind of problem found, or null when the style is valid.
+ */
+export function checkStyle(
+	style: string,
+): 'unknown-style' | 'malformed-hex' | 'malformed-color' | null {
+	if (Object.hasOwn(chalkCSSPolify, style)) return null;
+
+	if (isColorStyle(style)) {
+		if (parseColorStyle(style)) return null;
+		return /^(hex|bgHex)#/.test(style) ? 'malformed-hex' : 'malformed-color';
+	}
+
+	if (resolveStyleAlias(style)) return null;
+
+	return 'unknown-style';
+}
+
 /**
  * Converts a string with pseudo-language style markers into a tree structure.
  * The function parses segments of the text enclosed within `[mtxt-style[[...]]][[/mtxt-style]]`
  * markers and constructs a hierarchical representation of the styled text.
  *
+ * By default the parser is lenient: stray closing tags are ignored, tags left
+ * open at the end of the input are closed implicitly, and unknown styles
+ * render unstyled. Pass `{ diagnostics: true }` to get a report of those
+ * problems, or `{ strict: true }` to throw a `PseudoLangSyntaxError` instead.
+ *
+ * Named styles (see `registerStyle`) are replaced by what they stand for in
+ * the active palette.
+ *
  * @param text - The input string to be converted into a tree structure.
+ * @param options - Parsing options, see `ParseOptions`.
  * @returns A tree structure representing the styled text, where each node is either a text node or a styled node.
+ * With `diagnostics: true`, an object holding the tree and the diagnostics.
  *
  * @example
  * ```typescript
@@ -42,41 +145,166 @@ export type NodeList = Node[];
  * //   { type: 'text', content: 'Hello ' },
  * //   {
  * //     type: 'styled',
- * //     style: 'red',
+ * //     styles: ['red'],
  * //     children: [{ type: 'text', content: 'world' }]
  * //   },
  * //   { type: 'text', content: '!' }
  * // ]
+ *
+ * const { diagnostics } = pseudoLangToTree("oops[[/mtxt-style]]", {
+ *   diagnostics: true,
+ * });
+ * // [{ kind: 'unmatched-closing', offset: 4, length: 15, ... }]
  * ```
  */
-export function pseudoLangToTree(text: string) {
+export function pseudoLangToTree(
+	text: string,
+	options: ParseOptions & { diagnostics: true },
+): ParseResult;
+export function pseudoLangToTree(
+	text: string,
+	options?: ParseOptions,
+): NodeList;
+export function pseudoLangToTree(
+	text: string,
+	options: ParseOptions = {},
+): NodeList | ParseResult {
+	const { nodes, diagnostics } = parseMarkup(text);
+
+	if (options.strict && diagnostics.length > 0) {
+		throw new PseudoLangSyntaxError(diagnostics);
+	}
+
+	const expanded = expandStyleAliases(nodes);
+	return options.diagnostics ? { nodes: expanded, diagnostics } : expanded;
+}
+
+/**
+ * Builds the tree of pseudo-language markup as written, named styles
+ * included, and collects the problems found.
+ */
+function parseMarkup(text: string): ParseResult {
 	const input = splitByPseudoColorLangTags(text);
 	const stack: StyledNode[] = [];
+	const openTags: { offset: number; length: number }[] = [];
 	const root: Array<TextNode | StyledNode> = [];
+	const diagnostics: ParseDiagnostic[] = [];
+	let offset = 0;
 
 	for (const segment of input) {
 		const openMatch = matchOpeningTag(segment);
 		const stackLen = stack.length;
 		if (openMatch) {
-			const style = openMatch;
-			const newNode: StyledNode = { type: 'styled', style, children: [] };
+			const styles = openMatch.split(/\s+/).filter((s) => s.length > 0);
+			for (const style of styles) {
+				const problem = checkStyle(style);
+				if (problem) {
+					diagnostics.push({
+						kind: problem,
+						message: diagnosticMessages[problem](style),
+						offset,
+						length: segment.length,
+						style,
+					});
+				}
+			}
+			const newNode: StyledNode = { type: 'styled', styles, children: [] };
 			if (stackLen > 0) {
 				stack.at(-1)?.children.push(newNode);
 			} else {
 				root.push(newNode);
 			}
 			stack.push(newNode);
+			openTags.push({ offset, length: segment.length });
 		} else if (matchClosingTag(segment)) {
+			if (stackLen === 0) {
+				diagnostics.push({
+					kind: 'unmatched-closing',
+					message: 'Closing tag without a matching opening tag',
+					offset,
+					length: segment.length,
+				});
+			}
 			stack.pop();
+			openTags.pop();
 		} else {
-			const newNode: TextNode = { type: 'text', content: segment };
+			const newNode: TextNode = {
+				type: 'text',
+				content: unescapePseudoLang(segment),
+			};
 			if (stackLen > 0) {
 				stack.at(-1)?.children.push(newNode);
 			} else {
 				root.push(newNode);
 			}
 		}
+		offset += segment.length;
 	}
 
-	return root;
+	stack.forEach((node, index) => {
+		diagnostics.push({
+			kind: 'unclosed-opening',
+			message: `Tag "${node.styles.join(' ')}" is never closed`,
+			...openTags[index],
+			style: node.styles.join(' '),
+		});
+	});
+	diagnostics.sort((a, b) => a.offset - b.offset);
+
+	return { nodes: root, diagnostics };
+}
+
+/** How deep styling functions may nest named styles in their output. */
+const maxAliasDepth = 8;
+
+/**
+ * Replaces the named styles of a tree by what they stand for in the active
+ * palette. A styling function is applied to the content of its node, the
+ * styles before it in the node applying inside it, and its output is parsed
+ * in turn. Names the palette does not define are dropped.
+ */
+function expandStyleAliases(nodes: NodeList, depth = 0): NodeList {
+	return nodes.flatMap((node): NodeList => {
+		if (node.type === 'text') return [node];
+
+		let children = expandStyleAliases(node.children, depth);
+		if (!node.styles.some(isStyleAlias)) return [{ ...node, children }];
+
+		let styles: string[] = [];
+		for (const style of node.styles) {
+			const steps = isStyleAlias(style)
+				? (resolveStyleAlias(style) ?? [])
+				: [style];
+			for (const step of steps) {
+				if (typeof step === 'string') {
+					styles.push(step);
+					continue;
+				}
+				if (depth >= maxAliasDepth) continue;
+				if (styles.length > 0) {
+					children = [{ type: 'styled', styles, children }];
+					styles = [];
+				}
+				const output = step(treeToPseudoLang(children));
+				children = expandStyleAliases(parseMarkup(output).nodes, depth + 1);
+			}
+		}
+
+		return styles.length > 0
+			? [{ type: 'styled', styles, children }]
+			: children;
+	});
+}
+
+/**
+ * Writes a tree back to pseudo-language markup.
+ */
+function treeToPseudoLang(nodes: NodeList): string {
+	return nodes
+		.map((node) =>
+			node.type === 'text'
+				? escapePseudoLang(node.content)
+				: writePseudoColorLang(node.styles, treeToPseudoLang(node.children)),
+		)
+		.join('');
 }
@@ -1,25 +1,55 @@
 import { detectRuntime } from '../utils/getRuntime';
+import { getTerminalWidth } from '../utils/terminal';
+import { ColorLevel, resolveColorLevel } from '../utils/colorSupport';
 import { renderConsole } from './renderConsole';
 import { renderTerminal } from './renderTerminal';
+import { HTMLRenderParam, HTMLRenderResult, renderHTML } from './renderHTML';
 import { pseudoLangToTree } from './pseudoParser';
 
 interface RenderingParam {
 	mode?: 'nodelike' | 'browser' | 'auto';
 	join?: boolean;
+	/**
+	 * The color level to render with. `"auto"` (default) negotiates it from
+	 * `NO_COLOR`, `FORCE_COLOR`, `TERM`, `COLORTERM` and TTY detection.
+	 * Hex colors are quantized to the nearest palette entry below truecolor.
+	 * Browser console output, being CSS based, only honors `"none"`.
+	 */
+	colorLevel?: ColorLevel;
+	/**
+	 * Throws a `PseudoLangSyntaxError` on malformed markup (unbalanced tags,
+	 * unknown styles, malformed hex values) instead of rendering it leniently.
+	 */
+	strict?: boolean;
+	/**
+	 * Pads every line of a background-colored node so the background spans
+	 * the full line, for banners and code blocks. `true` uses the terminal
+	 * width from `getTerminalWidth`, a number sets the width. Terminal only.
+	 */
+	fill?: boolean | number;
 }
 
 export function createRenderer<T extends RenderingParam>(param?: T) {
 	const renderingMode = param?.mode || 'auto';
 	const joinRenderRes = param?.join || false;
+	const colorLevel = param?.colorLevel || 'auto';
+	const strict = param?.strict || false;
+	const fill = param?.fill || false;
 
 	return function (...content: string[]) {
-		const nodeList = pseudoLangToTree(content.join());
+		const nodeList = pseudoLangToTree(content.join(), { strict });
+		const fillWidth =
+			fill === false ? undefined : fill === true ? getTerminalWidth() : fill;
 		let renderedResult: string[];
 		let renderedLang;
 
 		switch (renderingMode) {
 			case 'nodelike':
-				renderedLang = renderTerminal(nodeList);
+				renderedLang = renderTerminal(
+					nodeList,
+					resolveColorLevel(colorLevel),
+					fillWidth,
+				);
 				break;
 			case 'browser':
 				renderedLang = renderConsole(nodeList);
@@ -29,7 +59,11 @@ export function createRenderer<T extends RenderingParam>(param?: T) {
 				if (runtime == 'browser') {
 					renderedLang = renderConsole(nodeList);
 				} else {
-					renderedLang = renderTerminal(nodeList);
+					renderedLang = renderTerminal(
+						nodeList,
+						resolveColorLevel(colorLevel),
+						fillWidth,
+					);
 				}
 				break;
 		}
@@ -38,7 +72,9 @@ export function createRenderer<T extends RenderingParam>(param?: T) {
 			renderedResult = [renderedLang];
 		} else {
 			const { text, styles } = renderedLang;
-			renderedResult = [text, ...styles];
+			// Without colors, the %c directives are kept but their CSS is dropped
+			const noColor = colorLevel === 'none';
+			renderedResult = [text, ...styles.map((s) => (noColor ? '' : s))];
 		}
 
 		return (
@@ -61,3 +97,27 @@ export const renderToNodeLike = createRenderer({
 	mode: 'nodelike',
 	join: false,
 });
+
+/**
+ * Renders pseudo-language content into HTML markup.
+ *
+ * @param content - The pseudo-language string to render.
+ * @param param - Rendering options: `mode` selects inline `style` attributes
+ * (default) or class names plus a generated stylesheet, `classPrefix` sets
+ * the prefix of generated class names.
+ * @returns An object with the `html` markup and the `css` stylesheet
+ * (empty in inline mode).
+ *
+ * @example
+ * ```typescript
+ * const { html, css } = renderToHTML(cols.red('Build failed'), { mode: 'class' });
+ * // html: '<span class="mtxt-red">Build failed</span>'
+ * // css:  '.mtxt-red { color: red; }'
+ * ```
+ */
+export function renderToHTML(
+	content: string,
+	param?: HTMLRenderParam,
+): HTMLRenderResult {
+	return renderHTML(pseudoLangToTree(content), param);
+}
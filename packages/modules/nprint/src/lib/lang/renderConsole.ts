@@ -1,7 +1,4 @@
-import {
-	chalkCSSPolify as cssPolify,
-	ChalkStyleKeys,
-} from '../cols/colorPolify';
+import { styleToCSS } from '../cols/colorPolify';
 import { Node } from './pseudoParser';
 
 export interface ConsoleRenderResult {
@@ -35,21 +32,21 @@ function renderNode(node: Node): ConsoleRenderResult {
 	if (node.type === 'text') {
 		return { text: '%c' + node.content, styles: [''] };
 	} else if (node.type === 'styled') {
-		const style =
-			cssPolify[node.style as ChalkStyleKeys] ||
-			node.style.match(/^hex#([0-9a-fA-F]{3}){1,2}$/)
-				? `color: ${node.style.replace('hex', '')}`
-				: node.style.match(/^bgHex#([0-9a-fA-F]{3}){1,2}$/)
-					? `background-color: ${node.style.replace('bgHex', '')}`
-					: '';
+		// Later declarations win in CSS, so the first style goes last
+		const style = [...node.styles]
+			.reverse()
+			.map((s) => styleToCSS(s))
+			.filter((css) => css.length > 0)
+			.join(' ');
 		const childrenResult = renderConsole(node.children);
 
-		// Apply this node's style to its children
-		const styledText = childrenResult.text.replace(/%c/g, '%c');
-		const styledStyles = childrenResult.styles.map(() => style);
+		// Apply this node's style to its children, nested styles override it
+		const styledStyles = childrenResult.styles.map((childStyle) =>
+			[style, childStyle].filter((css) => css.length > 0).join(' '),
+		);
 
 		return {
-			text: styledText,
+			text: childrenResult.text,
 			styles: styledStyles,
 		};
 	}
@@ -0,0 +1,97 @@
+import { styleToCSS } from '../cols/colorPolify';
+import { Node } from './pseudoParser';
+
+export interface HTMLRenderParam {
+	/**
+	 * How styles are attached to the emitted `<span>` elements:
+	 * - `"inline"`: each span carries its CSS in a `style` attribute.
+	 * - `"class"`: each span carries class names, and a stylesheet is generated.
+	 */
+	mode?: 'inline' | 'class';
+	/** Prefix used for generated class names in `"class"` mode. Defaults to "mtxt". */
+	classPrefix?: string;
+}
+
+export interface HTMLRenderResult {
+	html: string;
+	/** The generated stylesheet, empty in `"inline"` mode. */
+	css: string;
+}
+
+const htmlEscapeMap: Record<string, string> = {
+	'&': '&amp;',
+	'<': '&lt;',
+	'>': '&gt;',
+	'"': '&quot;',
+	"'": '&#39;',
+};
+
+/**
+ * Escapes the characters that are meaningful in HTML text and attribute values.
+ *
+ * @param text - The raw text to escape.
+ * @returns The escaped text, safe to embed in markup.
+ */
+export function escapeHTML(text: string): string {
+	return text.replace(/[&<>"']/g, (char) => htmlEscapeMap[char]);
+}
+
+/**
+ * Renders an array of nodes into HTML markup.
+ *
+ * Every styled node becomes a `<span>`, nested the same way as the tree, so
+ * the browser cascade combines nested styles. Text content is escaped.
+ * Styles that cannot be resolved to CSS do not produce a span.
+ *
+ * @param nodes - An array of `Node` objects to be rendered.
+ * @param param - Rendering options, see `HTMLRenderParam`.
+ * @returns An object containing the markup and, in `"class"` mode, the stylesheet.
+ */
+export function renderHTML(
+	nodes: Node[],
+	param: HTMLRenderParam = {},
+): HTMLRenderResult {
+	const mode = param.mode || 'inline';
+	const prefix = param.classPrefix || 'mtxt';
+	const rules = new Map<string, string>();
+
+	function renderNode(node: Node): string {
+		if (node.type === 'text') {
+			return escapeHTML(node.content);
+		}
+
+		const inner = node.children.map(renderNode).join('');
+		// Later declarations win in CSS, so the first style goes last
+		const resolved = [...node.styles]
+			.reverse()
+			.map((style) => ({ style, css: styleToCSS(style) }))
+			.filter(({ css }) => css.length > 0);
+		if (resolved.length === 0) return inner;
+
+		if (mode === 'inline') {
+			const css = resolved.map(({ css }) => css).join(' ');
+			return `<span style="${escapeHTML(css)}">${inner}</span>`;
+		}
+
+		const classNames = resolved.map(({ style, css }) => {
+			const className = toClassName(prefix, style);
+			rules.set(className, css);
+			return className;
+		});
+		return `<span class="${classNames.join(' ')}">${inner}</span>`;
+	}
+
+	const html = nodes.map(renderNode).join('');
+	const css = [...rules]
+		.map(([className, declaration]) => `.${className} { ${declaration} }`)
+		.join('\n');
+
+	return { html, css };
+}
+
+/**
+ * Builds a CSS-safe class name for a style, e.g. `hex#ff0000` → `mtxt-hex-ff0000`.
+ */
+function toClassName(prefix: string, style: string): string {
+	return `${prefix}-${style.replace(/[^a-zA-Z0-9_-]+/g, '-')}`;
+}
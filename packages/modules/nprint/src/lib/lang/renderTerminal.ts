@@ -1,32 +1,171 @@
-import { ChalkStyleKeys } from '../cols/colorPolify';
+import { chalkCSSPolify, ChalkStyleKeys } from '../cols/colorPolify';
+import {
+	ansi16Palette,
+	nearestAnsi16,
+	nearestAnsi256,
+} from '../cols/colorQuantize';
+import { ColorStyle, parseColorStyle } from '../cols/colorStyles';
+import { ColorDepth, detectColorLevel } from '../utils/colorSupport';
+import { visibleWidth } from '../utils/visibleText';
 import { Node } from './pseudoParser';
-import chalk from 'chalk';
+import { Chalk, ChalkInstance } from 'chalk';
+
+type StyleFn = (x: string) => string;
+
+const chalkByDepth = new Map<ColorDepth, ChalkInstance>();
+
+/**
+ * Returns a chalk instance bound to the given color depth.
+ */
+function chalkFor(depth: ColorDepth): ChalkInstance {
+	let instance = chalkByDepth.get(depth);
+	if (!instance) {
+		instance = new Chalk({ level: depth });
+		chalkByDepth.set(depth, instance);
+	}
+	return instance;
+}
 
 /**
  * Renders an array of nodes into a single string representation by processing
  * each node through the `renderNode` function and concatenating the results.
  *
  * @param nodes - An array of `Node` objects to be rendered.
+ * @param depth - The color depth to render with, from `0` (no styling) to
+ * `3` (truecolor). Defaults to the depth detected from the environment.
+ * @param fillWidth - When set, every line of a node carrying a background is
+ * padded to this width, so the background spans the full line.
  * @returns A string representation of the rendered nodes.
  */
-export function renderTerminal(nodes: Node[]): string {
-	return nodes.map((node) => renderNode(node)).join('');
+export function renderTerminal(
+	nodes: Node[],
+	depth: ColorDepth = detectColorLevel(),
+	fillWidth?: number,
+): string {
+	return renderNodes(nodes, depth, fillWidth, 0);
+}
+
+/**
+ * Renders nodes starting at a given column of the current line, which the
+ * background fill counts in the width of the first line.
+ */
+function renderNodes(
+	nodes: Node[],
+	depth: ColorDepth,
+	fillWidth: number | undefined,
+	column: number,
+): string {
+	let output = '';
+	for (const node of nodes) {
+		const rendered = renderNode(node, depth, fillWidth, column);
+		output += rendered;
+		if (fillWidth !== undefined) column = endColumn(rendered, column);
+	}
+	return output;
 }
 
-function renderNode(node: Node): string {
+function renderNode(
+	node: Node,
+	depth: ColorDepth,
+	fillWidth: number | undefined,
+	column: number,
+): string {
 	if (node.type === 'text') {
 		return node.content;
 	} else if (node.type === 'styled') {
-		const chalkFn = chalk[node.style as ChalkStyleKeys]
-			? chalk[node.style as ChalkStyleKeys]
-			: // Utilisation d'une regex corrigée pour les codes hexadécimaux à 3 ou 6 chiffres
-				node.style.match(/^hex#([0-9a-fA-F]{3}){1,2}$/)
-				? (x: string) => chalk.hex(node.style.replace('hex', ''))(x)
-				: node.style.match(/^bgHex#([0-9a-fA-F]{3}){1,2}$/)
-					? (x: string) => chalk.hex(node.style.replace('bgHex', ''))(x)
-					: (x: string) => x;
-		const inner = renderTerminal(node.children);
-		return chalkFn(inner);
+		// Only the outermost background is filled, nested ones stay inline
+		const inner =
+			fillWidth !== undefined && node.styles.some(isBackgroundStyle)
+				? fillLines(
+						renderNodes(node.children, depth, undefined, column),
+						fillWidth,
+						column,
+					)
+				: renderNodes(node.children, depth, fillWidth, column);
+		// The first style is applied innermost, so it wins over later ones
+		return node.styles.reduce(
+			(acc, style) => styleFn(style, depth)(acc),
+			inner,
+		);
 	}
 	return '';
 }
+
+/**
+ * The column reached once rendered text is written from a column.
+ */
+function endColumn(text: string, column: number): number {
+	const lastBreak = text.lastIndexOf('\n');
+	return lastBreak === -1
+		? column + visibleWidth(text)
+		: visibleWidth(text.slice(lastBreak + 1));
+}
+
+/**
+ * Tells whether a style colors the background.
+ */
+function isBackgroundStyle(style: string): boolean {
+	if (/^bg[A-Z]\w*$/.test(style) && Object.hasOwn(chalkCSSPolify, style)) {
+		return true;
+	}
+	return parseColorStyle(style)?.target === 'bg';
+}
+
+/**
+ * Pads every line of a rendered string with spaces up to the given width,
+ * the first line starting at a given column.
+ */
+function fillLines(text: string, width: number, column: number): string {
+	return text
+		.split('\n')
+		.map((line, i) => {
+			const used = visibleWidth(line) + (i === 0 ? column : 0);
+			return line + ' '.repeat(Math.max(0, width - used));
+		})
+		.join('\n');
+}
+
+/**
+ * Resolves a single style name into its chalk styling function.
+ */
+function styleFn(style: string, depth: ColorDepth): StyleFn {
+	const chalk = chalkFor(depth);
+	if (Object.hasOwn(chalkCSSPolify, style)) {
+		return chalk[style as ChalkStyleKeys];
+	}
+
+	const color = parseColorStyle(style);
+	return color ? colorStyle(color, depth) : (x: string) => x;
+}
+
+/**
+ * Builds the styling function for a color, quantized to the nearest
+ * palette entry when the depth is below truecolor.
+ */
+function colorStyle(color: ColorStyle, depth: ColorDepth): StyleFn {
+	const chalk = chalkFor(depth);
+	const { rgb, ansi256, target } = color;
+
+	if (depth === 0) return (x: string) => x;
+	if (depth === 3) {
+		return target === 'bg' ? chalk.bgRgb(...rgb) : chalk.rgb(...rgb);
+	}
+	if (depth === 2) {
+		const index = ansi256 ?? nearestAnsi256(rgb);
+		return target === 'bg' ? chalk.bgAnsi256(index) : chalk.ansi256(index);
+	}
+
+	const name =
+		ansi256 !== undefined && ansi256 < 16
+			? ansi16Palette[ansi256].name
+			: nearestAnsi16(rgb);
+	return target === 'bg' ? chalk[toBackgroundKey(name)] : chalk[name];
+}
+
+/**
+ * Turns a foreground chalk key into its background counterpart,
+ * e.g. `redBright` → `bgRedBright`.
+ */
+function toBackgroundKey(name: ChalkStyleKeys): ChalkStyleKeys {
+	return `bg${name[0].toUpperCase()}${name.slice(1)}` as ChalkStyleKeys;
+}
@@ -0,0 +1,162 @@
+import { isStyleAlias } from '../cols/styleAliases';
+import { escapePseudoLang, writePseudoColorLang } from './pseudoLang';
+import { checkStyle } from './pseudoParser';
+
+/**
+ * The head of a style block: `{`, dot-separated style names, then a space.
+ * Names start with a letter, so `{0}` or `{ a: 1 }` stay text.
+ */
+const blockHead = /^\{([a-zA-Z][\w#,-]*(?:\.[a-zA-Z][\w#,-]*)*)\s/;
+
+/**
+ * An escape sequence of the raw text of a template, with the hex digits of
+ * `\u{…}` captured.
+ */
+const escapeSequence =
+	/\\(?:u\{([\da-fA-F]+)\}|u[\da-fA-F]{4}|x[\da-fA-F]{2}|[\s\S])/y;
+
+/**
+ * Finds the braces escaped as `\{` or `\}` in a literal of a template. A
+ * tagged template only keeps the backslash in its raw text, so the raw text
+ * is walked along the cooked one to find where the escaped braces landed.
+ * Without raw text, as when called with plain strings, the backslash is
+ * still in the literal and is dropped here.
+ *
+ * @returns The literal without those backslashes, and the indexes of the
+ * escaped braces in it.
+ */
+function escapedBraces(
+	literal: string,
+	raw: string | undefined,
+): { text: string; escaped: Set<number> } {
+	const escaped = new Set<number>();
+
+	if (raw === undefined) {
+		let text = '';
+		for (let at = 0; at < literal.length; at++) {
+			const next = literal[at + 1];
+			if (literal[at] === '\\' && (next === '{' || next === '}')) {
+				escaped.add(text.length);
+				at++;
+			}
+			text += literal[at];
+		}
+		return { text, escaped };
+	}
+
+	let cooked = 0;
+	for (let at = 0; at < raw.length;) {
+		if (raw[at] !== '\\') {
+			at++;
+			cooked++;
+			continue;
+		}
+		escapeSequence.lastIndex = at;
+		const sequence = raw.match(escapeSequence)!;
+		const [source, codePoint] = sequence;
+		if (source === '\\{' || source === '\\}') escaped.add(cooked);
+
+		// `\u{…}` may add a surrogate pair, a line continuation adds nothing
+		if (codePoint) {
+			cooked += String.fromCodePoint(parseInt(codePoint, 16)).length;
+		} else if (!/^\\[\n\u2028\u2029]$/.test(source)) {
+			cooked++;
+		}
+		at += source.length;
+	}
+	return { text: literal, escaped };
+}
+
+/**
+ * Compiles a template literal holding style blocks into pseudo-language.
+ * A block is `{styles text}`: style names joined by dots, as in a `cols`
+ * chain, a space, then the styled text, which may hold other blocks.
+ * `\{` and `\}` are literal braces, which neither open nor close a block.
+ * The text of the template and the interpolated values are escaped, so
+ * only blocks style the output and user data can never inject tags.
+ *
+ * @param strings - The literal parts of the template.
+ * @param values - The interpolated values, shown as `String(value)`.
+ * @returns The pseudo-language string.
+ * @throws {SyntaxError} When a block is never closed, or names an unknown
+ * style or a malformed color.
+ *
+ * @example
+ * ```typescript
+ * compileTemplate`Build {green.bold passed} in {hex#888 ${ms}ms}`;
+ * // Build [mtxt-style[[bold green]]]passed[[/mtxt-style]] in [mtxt-style[[hex#888]]]12ms[[/mtxt-style]]
+ * ```
+ */
+export function compileTemplate(
+	strings: readonly string[],
+	...values: unknown[]
+): string {
+	const stack: { head: string; styles: string[]; text: string }[] = [
+		{ head: '', styles: [], text: '' },
+	];
+	const append = (text: string) => {
+		stack[stack.length - 1].text += text;
+	};
+
+	const raw = (strings as Partial<TemplateStringsArray>).raw;
+
+	strings.forEach((cooked, i) => {
+		const { text: literal, escaped } = escapedBraces(cooked, raw?.[i]);
+		let plain = '';
+		let at = 0;
+		while (at < literal.length) {
+			const char = literal[at];
+			const head =
+				char === '{' && !escaped.has(at)
+					? literal.slice(at).match(blockHead)
+					: null;
+
+			if (head) {
+				append(escapePseudoLang(plain));
+				plain = '';
+				// Chains apply their last name innermost, like `cols.green.bold`
+				const styles = head[1].split('.').reverse();
+				styles.forEach((style) => validateStyle(style, head[0].trimEnd()));
+				stack.push({ head: head[0].trimEnd(), styles, text: '' });
+				at += head[0].length;
+			} else if (char === '}' && stack.length > 1 && !escaped.has(at)) {
+				append(escapePseudoLang(plain));
+				plain = '';
+				const block = stack.pop()!;
+				append(writePseudoColorLang(block.styles, block.text));
+				at++;
+			} else {
+				plain += char;
+				at++;
+			}
+		}
+		append(escapePseudoLang(plain));
+
+		if (i < values.length) append(escapePseudoLang(String(values[i])));
+	});
+
+	if (stack.length > 1) {
+		throw new SyntaxError(
+			`Style block "${stack[stack.length - 1].head}" is never closed`,
+		);
+	}
+	return stack[0].text;
+}
+
+const styleProblems = {
+	'unknown-style': 'Unknown style',
+	'malformed-hex': 'Malformed hex color',
+	'malformed-color': 'Malformed color',
+};
+
+/**
+ * Throws when a block names a style the renderers do not know. Named
+ * styles of any palette are accepted, the palette may change later.
+ */
+function validateStyle(style: string, head: string) {
+	const problem = checkStyle(style);
+	if (problem === null || isStyleAlias(style)) return;
+	throw new SyntaxError(
+		`${styleProblems[problem]} "${style}" in style block "${head}"`,
+	);
+}
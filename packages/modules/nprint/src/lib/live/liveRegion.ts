@@ -0,0 +1,166 @@
+import { pseudoLangToTree } from '../lang/pseudoParser';
+import { renderTerminal } from '../lang/renderTerminal';
+import { ColorLevel, resolveColorLevel } from '../utils/colorSupport';
+import { detectRuntime } from '../utils/getRuntime';
+import { truncateStyled } from '../utils/styledText';
+
+/**
+ * The output a live region writes to. `process.stdout` satisfies it, and so
+ * does any object collecting the written chunks, which is how live output
+ * is tested.
+ */
+export interface LiveStream {
+	write(chunk: string): unknown;
+	/** Whether the output is a terminal, where lines are redrawn in place. */
+	isTTY?: boolean;
+	/** The terminal width, lines are cut to it so redrawing stays in place. */
+	columns?: number;
+}
+
+export interface LiveParam {
+	/** Defaults to the standard output of the runtime. */
+	stream?: LiveStream;
+	/** Defaults to "auto" on terminals and to "none" otherwise. */
+	colorLevel?: ColorLevel;
+	/**
+	 * The minimum delay between two plain lines when the output is not a
+	 * terminal, in milliseconds. Defaults to 1000.
+	 */
+	interval?: number;
+}
+
+const cursor = {
+	hide: '\u001b[?25l',
+	show: '\u001b[?25h',
+	up: (n: number) => (n > 0 ? `\u001b[${n}A` : ''),
+	clearDown: '\u001b[0J',
+};
+
+/**
+ * Returns the standard output of the current runtime as a `LiveStream`:
+ * `process.stdout` on Node and Bun, `Deno.stdout` on Deno, and a non-TTY
+ * stream logging to the console elsewhere.
+ */
+export function defaultLiveStream(): LiveStream {
+	const runtime = detectRuntime();
+
+	if (runtime === 'node' || runtime === 'bun') {
+		return process.stdout;
+	}
+	if (runtime === 'deno') {
+		const encoder = new TextEncoder();
+		return {
+			write: (chunk) => Deno.stdout.writeSync(encoder.encode(chunk)),
+			isTTY: Deno.stdout.isTerminal(),
+			get columns() {
+				try {
+					return Deno.consoleSize().columns;
+				} catch {
+					return undefined;
+				}
+			},
+		};
+	}
+	return { write: (chunk) => console.log(chunk.replace(/\n$/, '')) };
+}
+
+/**
+ * @class LiveRegion
+ * @description
+ * A block of lines at the bottom of the output that can be redrawn.
+ * On terminals the block is redrawn in place with cursor control sequences.
+ * Elsewhere (pipes, files, CI logs) its lines are printed as plain text,
+ * at most once per `interval` and only when they changed, and once more
+ * when the region is done.
+ */
+export class LiveRegion {
+	readonly stream: LiveStream;
+	readonly isTTY: boolean;
+	private readonly depth: ReturnType<typeof resolveColorLevel>;
+	private readonly interval: number;
+	private drawnLines = 0;
+	private lastPlainTime = -Infinity;
+	private lastPlainText: string | null = null;
+	private finished = false;
+
+	constructor(param: LiveParam = {}) {
+		this.stream = param.stream ?? defaultLiveStream();
+		this.isTTY = this.stream.isTTY === true;
+		this.depth = resolveColorLevel(
+			param.colorLevel ?? (this.isTTY ? 'auto' : 'none'),
+			this.isTTY,
+		);
+		this.interval = param.interval ?? 1000;
+	}
+
+	/**
+	 * Replaces the lines of the region.
+	 * @param lines - The pseudo-language lines to show.
+	 */
+	update(lines: string[]): void {
+		if (this.finished) return;
+		if (this.isTTY) {
+			this.redraw(lines);
+			return;
+		}
+
+		const now = Date.now();
+		if (now - this.lastPlainTime >= this.interval) {
+			this.writePlain(lines);
+			this.lastPlainTime = now;
+		}
+	}
+
+	/**
+	 * Shows the final lines of the region and releases the terminal.
+	 * Later updates are ignored.
+	 * @param lines - The pseudo-language lines to leave on screen.
+	 */
+	done(lines: string[]): void {
+		if (this.finished) return;
+		if (this.isTTY) {
+			this.redraw(lines);
+			this.stream.write('\n' + cursor.show);
+		} else {
+			this.writePlain(lines);
+		}
+		this.finished = true;
+	}
+
+	private redraw(lines: string[]): void {
+		const columns = this.stream.columns;
+		const fitted = columns
+			? lines.map((line) => truncateStyled(line, columns))
+			: lines;
+
+		const move =
+			this.drawnLines === 0
+				? cursor.hide
+				: '\r' + cursor.up(this.drawnLines - 1) + cursor.clearDown;
+		const text = this.render(fitted.join('\n'));
+		this.stream.write(move + text);
+		this.drawnLines = text.split('\n').length;
+	}
+
+	private writePlain(lines: string[]): void {
+		const text = this.render(lines.join('\n'));
+		if (text === this.lastPlainText) return;
+		this.lastPlainText = text;
+		this.stream.write(text + '\n');
+	}
+
+	private render(text: string): string {
+		return renderTerminal(pseudoLangToTree(text), this.depth);
+	}
+}
+
+/**
+ * Starts a timer that does not keep the process alive on Node and Bun.
+ *
+ * @internal
+ */
+export function startTimer(fn: () => void, delay: number) {
+	const timer = setInterval(fn, delay);
+	if (typeof timer === 'object' && 'unref' in timer) timer.unref();
+	return () => clearInterval(timer);
+}
@@ -0,0 +1,291 @@
+import { ColorFn } from '../cols/colorPack';
+import { ChalkStyleKeys } from '../cols/colorPolify';
+import { writePseudoColorLang } from '../lang/pseudoLang';
+import { LiveParam, LiveRegion, startTimer } from './liveRegion';
+
+/**
+ * @fileoverview Live components redrawn in place on terminals: progress
+ * bars, spinners and task lists. Each one owns a `LiveRegion`, see it for
+ * the behavior on non-TTY outputs.
+ */
+
+type Style = ChalkStyleKeys | ColorFn;
+
+function applyStyle(style: Style, text: string): string {
+	if (text === '') return '';
+	return typeof style === 'function'
+		? style(text)
+		: writePseudoColorLang([style], text);
+}
+
+export interface ProgressBarParam extends LiveParam {
+	total: number;
+	label?: string;
+	/** The width of the bar, in cells. Defaults to 30. */
+	width?: number;
+	complete?: string;
+	incomplete?: string;
+	/** The color of the completed part. Defaults to "green". */
+	color?: Style;
+}
+
+export interface ProgressBar {
+	/** Sets the progress, and optionally the label. */
+	update(current: number, label?: string): void;
+	/** Advances the progress by `step`, 1 by default. */
+	tick(step?: number, label?: string): void;
+	/** Shows the bar one last time and releases the output. */
+	done(label?: string): void;
+}
+
+/**
+ * Builds the line of a progress bar: label, bar, percentage and count.
+ *
+ * @param current - The progress, clamped to `[0, total]`.
+ * @param param - The progress bar options.
+ * @returns The pseudo-language line.
+ */
+export function renderProgressBar(
+	current: number,
+	param: Omit<ProgressBarParam, keyof LiveParam>,
+): string {
+	const width = param.width ?? 30;
+	const total = Math.max(0, param.total);
+	const value = Math.min(Math.max(0, current), total);
+	const ratio = total === 0 ? 1 : value / total;
+	const filled = Math.round(ratio * width);
+
+	const bar =
+		applyStyle(param.color ?? 'green', (param.complete ?? '█').repeat(filled)) +
+		applyStyle('gray', (param.incomplete ?? '░').repeat(width - filled));
+	const percent = `${Math.floor(ratio * 100)}%`.padStart(4);
+
+	return [param.label, bar, percent, `${value}/${total}`]
+		.filter((part) => part)
+		.join(' ');
+}
+
+/**
+ * Creates a progress bar, drawn as soon as it is created.
+ *
+ * @param param - The progress bar options, and the live output options.
+ * @returns The progress bar controls.
+ *
+ * @example
+ * ```typescript
+ * const bar = progressBar({ total: targets.length, label: 'Bundling' });
+ * for (const target of targets) {
+ *   await bundle(target);
+ *   bar.tick(1, `Bundling ${target}`);
+ * }
+ * bar.done('Bundled');
+ * ```
+ */
+export function progressBar(param: ProgressBarParam): ProgressBar {
+	const region = new LiveRegion(param);
+	let current = 0;
+	let label = param.label;
+
+	const draw = () => [renderProgressBar(current, { ...param, label })];
+	region.update(draw());
+
+	const update = (value: number, newLabel?: string) => {
+		current = value;
+		label = newLabel ?? label;
+		region.update(draw());
+	};
+
+	return {
+		update,
+		tick: (step = 1, newLabel) => update(current + step, newLabel),
+		done(newLabel) {
+			label = newLabel ?? label;
+			region.done(draw());
+		},
+	};
+}
+
+export const spinnerFrames = {
+	dots: ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'],
+	line: ['-', '\\', '|', '/'],
+	arc: ['◜', '◠', '◝', '◞', '◡', '◟'],
+} satisfies Record<string, string[]>;
+
+export interface SpinnerParam extends LiveParam {
+	/** A frame preset or custom frames. Defaults to "dots". */
+	frames?: keyof typeof spinnerFrames | string[];
+	/** The delay between two frames, in milliseconds. Defaults to 80. */
+	frameInterval?: number;
+	/** The color of the spinner. Defaults to "cyan". */
+	color?: Style;
+}
+
+const symbols = {
+	success: applyStyle('green', '✔'),
+	failure: applyStyle('red', '✖'),
+	skipped: applyStyle('yellow', '↓'),
+};
+
+/**
+ * Animates the frames of a spinner on terminals, and calls `draw` with the
+ * current frame. Returns the function stopping the animation.
+ */
+function animate(
+	region: LiveRegion,
+	param: SpinnerParam,
+	draw: (frame: string) => void,
+) {
+	const frames =
+		typeof param.frames === 'object'
+			? param.frames
+			: spinnerFrames[param.frames || 'dots'];
+	const color = param.color ?? 'cyan';
+	let index = 0;
+
+	const frame = () => applyStyle(color, frames[index % frames.length]);
+	draw(frame());
+	if (!region.isTTY) return { frame, stop: () => {} };
+
+	const stop = startTimer(() => {
+		index++;
+		draw(frame());
+	}, param.frameInterval ?? 80);
+	return { frame, stop };
+}
+
+export interface Spinner {
+	/** Replaces the text shown next to the spinner. */
+	update(text: string): void;
+	/** Stops the spinner with a success mark. */
+	succeed(text?: string): void;
+	/** Stops the spinner with a failure mark. */
+	fail(text?: string): void;
+	/** Stops the spinner, leaving its text without a mark. */
+	stop(text?: string): void;
+}
+
+/**
+ * Creates a spinner, started as soon as it is created.
+ *
+ * @param text - The text shown next to the spinner.
+ * @param param - The spinner options, and the live output options.
+ * @returns The spinner controls.
+ *
+ * @example
+ * ```typescript
+ * const spin = spinner('Generating types');
+ * await generateDts();
+ * spin.succeed('Types generated');
+ * ```
+ */
+export function spinner(text: string, param: SpinnerParam = {}): Spinner {
+	const region = new LiveRegion(param);
+	let current = text;
+	const animation = animate(region, param, (frame) =>
+		region.update([`${frame} ${current}`]),
+	);
+
+	const finish = (line: string) => {
+		animation.stop();
+		region.done([line]);
+	};
+
+	return {
+		update(newText) {
+			current = newText;
+			region.update([`${animation.frame()} ${current}`]);
+		},
+		succeed(newText) {
+			finish(`${symbols.success} ${newText ?? current}`);
+		},
+		fail(newText) {
+			finish(`${symbols.failure} ${newText ?? current}`);
+		},
+		stop(newText) {
+			finish(newText ?? current);
+		},
+	};
+}
+
+export type TaskStatus = 'running' | 'success' | 'failure' | 'skipped';
+
+export interface Task {
+	readonly status: TaskStatus;
+	/** Replaces the title of the task. */
+	update(title: string): void;
+	succeed(title?: string): void;
+	fail(title?: string): void;
+	skip(title?: string): void;
+}
+
+export interface TaskList {
+	/** Adds a running task at the bottom of the list. */
+	add(title: string): Task;
+	/** Shows the list one last time and releases the output. */
+	done(): void;
+}
+
+/**
+ * Creates a list of concurrent tasks, one line each, with a spinner on the
+ * running ones and a mark on the settled ones.
+ *
+ * @param param - The spinner options, and the live output options.
+ * @returns The task list controls.
+ *
+ * @example
+ * ```typescript
+ * const list = taskList();
+ * await Promise.all(
+ *   targets.map(async (target) => {
+ *     const task = list.add(`Bundle ${target}`);
+ *     await bundle(target).then(() => task.succeed(), () => task.fail());
+ *   }),
+ * );
+ * list.done();
+ * ```
+ */
+export function taskList(param: SpinnerParam = {}): TaskList {
+	const region = new LiveRegion(param);
+	const tasks: { title: string; status: TaskStatus }[] = [];
+	let frame = '';
+
+	const lines = () =>
+		tasks.map(({ title, status }) => {
+			const mark = status === 'running' ? frame : symbols[status];
+			return `${mark} ${title}`;
+		});
+	const animation = animate(region, param, (next) => {
+		frame = next;
+		if (tasks.length > 0) region.update(lines());
+	});
+
+	return {
+		add(title) {
+			const task = { title, status: 'running' as TaskStatus };
+			tasks.push(task);
+			region.update(lines());
+
+			const settle = (status: TaskStatus, newTitle?: string) => {
+				task.status = status;
+				task.title = newTitle ?? task.title;
+				region.update(lines());
+			};
+			return {
+				get status() {
+					return task.status;
+				},
+				update(newTitle) {
+					task.title = newTitle;
+					region.update(lines());
+				},
+				succeed: (newTitle) => settle('success', newTitle),
+				fail: (newTitle) => settle('failure', newTitle),
+				skip: (newTitle) => settle('skipped', newTitle),
+			};
+		},
+		done() {
+			animation.stop();
+			region.done(lines());
+		},
+	};
+}
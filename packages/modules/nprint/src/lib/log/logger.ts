@@ -0,0 +1,200 @@
+import { cols } from '../cols/colorPack';
+import { escapePseudoLang } from '../lang/pseudoLang';
+import { readEnv } from '../utils/colorSupport';
+import { consoleTransport, LogTransport } from './transports';
+
+/**
+ * The log levels, from the most verbose to the most severe.
+ */
+export const logLevels = {
+	trace: 10,
+	debug: 20,
+	info: 30,
+	warn: 40,
+	error: 50,
+	fatal: 60,
+} as const;
+
+export type LogLevel = keyof typeof logLevels;
+
+export interface LogRecord {
+	level: LogLevel;
+	namespace?: string;
+	time: Date;
+	/** The message, in pseudo-language. */
+	message: string;
+	/** The full line, timestamp, badge and namespace included, in pseudo-language. */
+	formatted: string;
+}
+
+export interface LoggerParam {
+	namespace?: string;
+	/** The least severe level logged. `"silent"` logs nothing. Defaults to "info". */
+	level?: LogLevel | 'silent';
+	/** Shows the time of each record, or formats it. Defaults to true. */
+	timestamp?: boolean | ((time: Date) => string);
+	/** Defaults to a single `consoleTransport`. */
+	transports?: LogTransport[];
+	/**
+	 * Namespace patterns logged at every level, e.g. "app:*,-app:db".
+	 * Defaults to the `DEBUG` environment variable.
+	 */
+	filter?: string;
+}
+
+type LogMethod = (...message: unknown[]) => void;
+
+export type Logger = { [L in LogLevel]: LogMethod } & {
+	readonly namespace?: string;
+	readonly level: LogLevel | 'silent';
+	/** Tells whether a record of the given level would be logged. */
+	enabled(level: LogLevel): boolean;
+	/** Creates a logger for a sub-namespace, e.g. "app" → "app:db". */
+	child(namespace: string, param?: Omit<LoggerParam, 'namespace'>): Logger;
+};
+
+const badges: Record<LogLevel, (text: string) => string> = {
+	trace: cols.gray,
+	debug: cols.blue,
+	info: cols.green,
+	warn: cols.yellow,
+	error: cols.red,
+	fatal: cols.bgRed.white.bold,
+};
+
+/**
+ * Creates a logger with levels, timestamps, a colored level badge and
+ * pluggable transports. Messages can be pseudo-language strings, such as
+ * `cols` or `write()` output; other values are converted to text and
+ * escaped.
+ *
+ * A namespaced logger matching the namespace filter (the `DEBUG`
+ * environment variable by default, e.g. `DEBUG=app:*`) logs every level,
+ * whatever its configured level, unless that level is "silent".
+ *
+ * @param param - Configuration options for the logger.
+ * @returns The logger.
+ *
+ * @example
+ * ```typescript
+ * const log = createLogger({ namespace: 'app', level: 'debug' });
+ * log.info('Server listening on', cols.cyan(':8080'));
+ * log.child('db').warn('Slow query', { ms: 1200 });
+ * ```
+ */
+export function createLogger(param: LoggerParam = {}): Logger {
+	const namespace = param.namespace;
+	const filter = param.filter ?? readEnv('DEBUG') ?? '';
+	const level =
+		param.level !== 'silent' && namespace && matchNamespace(namespace, filter)
+			? 'trace'
+			: (param.level ?? 'info');
+	const transports = param.transports ?? [consoleTransport()];
+	const timestamp = param.timestamp ?? true;
+
+	const enabled = (recordLevel: LogLevel) =>
+		level !== 'silent' && logLevels[recordLevel] >= logLevels[level];
+
+	const log = (recordLevel: LogLevel, args: unknown[]) => {
+		if (!enabled(recordLevel)) return;
+
+		const time = new Date();
+		const message = args.map(toMessage).join(' ');
+		const parts = [
+			timestamp === false
+				? ''
+				: cols.gray(
+						typeof timestamp === 'function'
+							? timestamp(time)
+							: formatTime(time),
+					),
+			badges[recordLevel](recordLevel.toUpperCase().padEnd(5)),
+			namespace ? cols.magenta(namespace) : '',
+			message,
+		];
+		const formatted = parts.filter((part) => part !== '').join(' ');
+
+		const record = { level: recordLevel, namespace, time, message, formatted };
+		for (const transport of transports) transport(record);
+	};
+
+	const methods = Object.fromEntries(
+		(Object.keys(logLevels) as LogLevel[]).map((l) => [
+			l,
+			(...args: unknown[]) => log(l, args),
+		]),
+	) as { [L in LogLevel]: LogMethod };
+
+	return {
+		...methods,
+		namespace,
+		level,
+		enabled,
+		child(childNamespace, childParam = {}) {
+			return createLogger({
+				level: param.level,
+				timestamp: param.timestamp,
+				transports,
+				filter,
+				...childParam,
+				namespace: namespace
+					? `${namespace}:${childNamespace}`
+					: childNamespace,
+			});
+		},
+	};
+}
+
+/**
+ * Tells whether a namespace matches a filter: comma or space separated
+ * patterns where `*` matches anything and a leading `-` excludes.
+ *
+ * @param namespace - The namespace, e.g. "app:db".
+ * @param filter - The patterns, e.g. "app:*,-app:db".
+ * @returns True when an including pattern matches and no excluding one does.
+ */
+export function matchNamespace(namespace: string, filter: string): boolean {
+	const patterns = filter.split(/[\s,]+/).filter((p) => p.length > 0);
+	const toRegex = (pattern: string) =>
+		new RegExp(
+			'^' +
+				pattern
+					.split('*')
+					.map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+					.join('.*') +
+				'$',
+		);
+
+	let matched = false;
+	for (const pattern of patterns) {
+		if (pattern.startsWith('-')) {
+			if (toRegex(pattern.slice(1)).test(namespace)) return false;
+		} else if (toRegex(pattern).test(namespace)) {
+			matched = true;
+		}
+	}
+	return matched;
+}
+
+function toMessage(value: unknown): string {
+	if (typeof value === 'string') return value;
+	if (value instanceof Error) {
+		return escapePseudoLang(value.stack ?? `${value.name}: ${value.message}`);
+	}
+	if (typeof value === 'object' && value !== null) {
+		try {
+			return escapePseudoLang(JSON.stringify(value));
+		} catch {
+			return escapePseudoLang(String(value));
+		}
+	}
+	return escapePseudoLang(String(value));
+}
+
+function formatTime(time: Date): string {
+	const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+	return (
+		`${pad(time.getHours())}:${pad(time.getMinutes())}:` +
+		`${pad(time.getSeconds())}.${pad(time.getMilliseconds(), 3)}`
+	);
+}
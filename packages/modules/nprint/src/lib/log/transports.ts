@@ -0,0 +1,84 @@
+import { createRenderer } from '../lang/render';
+import { defaultLiveStream, LiveStream } from '../live/liveRegion';
+import { ColorLevel } from '../utils/colorSupport';
+import { stripStyles } from '../utils/visibleText';
+import { LogRecord } from './logger';
+
+/**
+ * Receives every record a logger emits.
+ */
+export type LogTransport = (record: LogRecord) => void;
+
+/**
+ * A stream a transport writes text to, e.g. `process.stdout` or
+ * `fs.createWriteStream('app.log')`.
+ */
+export type LogStream = Pick<LiveStream, 'write'>;
+
+/**
+ * Logs records to the console, rendered for the terminal or the browser
+ * console as `render` detects it. Warnings go to `console.warn`, errors to
+ * `console.error`.
+ *
+ * @param param - Rendering options, see `createRenderer`.
+ * @returns The transport.
+ */
+export function consoleTransport(
+	param: {
+		mode?: 'nodelike' | 'browser' | 'auto';
+		colorLevel?: ColorLevel;
+	} = {},
+): LogTransport {
+	const render = createRenderer(param);
+	return (record) => {
+		const method =
+			record.level === 'error' || record.level === 'fatal'
+				? 'error'
+				: record.level === 'warn'
+					? 'warn'
+					: 'log';
+		console[method](...render(record.formatted));
+	};
+}
+
+/**
+ * Writes records as plain text lines, without any styling, to a stream
+ * such as a file.
+ *
+ * @param stream - The stream to write to. Defaults to the standard output.
+ * @returns The transport.
+ *
+ * @example
+ * ```typescript
+ * import { createWriteStream } from 'node:fs';
+ * createLogger({ transports: [streamTransport(createWriteStream('app.log'))] });
+ * ```
+ */
+export function streamTransport(
+	stream: LogStream = defaultLiveStream(),
+): LogTransport {
+	return (record) => {
+		stream.write(stripStyles(record.formatted) + '\n');
+	};
+}
+
+/**
+ * Writes records as JSON lines, one object per record with `time`,
+ * `level`, `namespace` and the plain text `message`.
+ *
+ * @param stream - The stream to write to. Defaults to the standard output.
+ * @returns The transport.
+ */
+export function jsonTransport(
+	stream: LogStream = defaultLiveStream(),
+): LogTransport {
+	return (record) => {
+		const entry = {
+			time: record.time.toISOString(),
+			level: record.level,
+			namespace: record.namespace,
+			message: stripStyles(record.message),
+		};
+		stream.write(JSON.stringify(entry) + '\n');
+	};
+}
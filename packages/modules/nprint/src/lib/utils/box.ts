@@ -0,0 +1,195 @@
+import { ColorFn } from '../cols/colorPack';
+import { ChalkStyleKeys } from '../cols/colorPolify';
+import { writePseudoColorLang } from '../lang/pseudoLang';
+import {
+	padStyled,
+	splitStyledLines,
+	truncateStyled,
+	wrapLines,
+} from './styledText';
+import { TableBorder, TableBorderPreset, tableBorders } from './table';
+import { visibleWidth } from './visibleText';
+
+/**
+ * The characters drawing a box border, the outer ones of `TableBorder`.
+ */
+export type BoxBorder = Pick<
+	TableBorder,
+	| 'top'
+	| 'topLeft'
+	| 'topRight'
+	| 'bottom'
+	| 'bottomLeft'
+	| 'bottomRight'
+	| 'left'
+	| 'right'
+>;
+
+/**
+ * Space around the content, in lines for `top`/`bottom` and in cells for
+ * `left`/`right`. A number applies to every side.
+ */
+export type BoxSpacing =
+	number | { top?: number; right?: number; bottom?: number; left?: number };
+
+export interface BoxParam {
+	title?: string | number;
+	titleAlign?: 'left' | 'center' | 'right';
+	titleColor?: ChalkStyleKeys | ColorFn;
+	border?: TableBorderPreset | BoxBorder;
+	borderColor?: ChalkStyleKeys | ColorFn;
+	padding?: BoxSpacing;
+	margin?: BoxSpacing;
+	width?: number;
+}
+
+/**
+ * Draws a border around multi-line content, with an optional title in the
+ * top border. The content is measured on its visible width, so styled
+ * content, and other boxes, keep the right-hand border in place.
+ *
+ * @param content - The content to frame, possibly multi-line and styled.
+ * @param param - Configuration options for the box.
+ * @param param.title - The title shown in the top border. Defaults to no title.
+ * @param param.titleAlign - The alignment of the title. Can be "center", "left", or "right". Defaults to "center".
+ * @param param.titleColor - The color of the title. Can be a string or a function that applies color. Defaults to the border color.
+ * @param param.border - A border preset ("ascii", "single", "double", "rounded", "none") or custom border characters. Defaults to "single".
+ * @param param.borderColor - The color of the border. Can be a string or a function that applies color. Defaults to "gray".
+ * @param param.padding - The space between the border and the content. Defaults to one cell on the left and right.
+ * @param param.margin - The space around the border. Defaults to 0.
+ * @param param.width - The total width of the box, margins excluded. The content is wrapped to fit. Defaults to the width of the content.
+ *
+ * @returns A string representing the box.
+ *
+ * @example
+ * ```typescript
+ * box(`${cols.green('✔')} 12 passed\n${cols.red('✖')} 1 failed`, {
+ *   title: 'Summary',
+ *   border: 'rounded',
+ *   borderColor: 'cyan',
+ * });
+ * ```
+ */
+export function box(content: string, param: BoxParam = {}): string {
+	const border =
+		typeof param.border === 'object'
+			? param.border
+			: tableBorders[param.border || 'single'];
+	const padding = resolveSpacing(param.padding, { left: 1, right: 1 });
+	const margin = resolveSpacing(param.margin, {});
+	const title =
+		param.title !== undefined && param.title !== '' ? ` ${param.title} ` : '';
+	const align = param.titleAlign || 'center';
+
+	const color = (text: string) => {
+		if (text === '') return '';
+		return typeof param.borderColor === 'function'
+			? param.borderColor(text)
+			: writePseudoColorLang([param.borderColor || 'gray'], text);
+	};
+	const titleColor =
+		param.titleColor === undefined
+			? color
+			: (text: string) =>
+					typeof param.titleColor === 'function'
+						? param.titleColor(text)
+						: writePseudoColorLang([param.titleColor as string], text);
+
+	const sides = visibleWidth(border.left) + visibleWidth(border.right);
+	let lines = splitStyledLines(content);
+	let contentWidth: number;
+	if (param.width !== undefined) {
+		contentWidth = Math.max(
+			1,
+			param.width - sides - padding.left - padding.right,
+		);
+		lines = lines.flatMap((line) => wrapLines(line, contentWidth));
+	} else {
+		contentWidth = Math.max(
+			...lines.map(visibleWidth),
+			visibleWidth(title) - padding.left - padding.right,
+		);
+	}
+	const inner = contentWidth + padding.left + padding.right;
+	// A title wider than a box of fixed width is cut to fit the top border
+	const label = truncateStyled(title, inner);
+
+	const marginLeft = ' '.repeat(margin.left);
+	const marginRight = ' '.repeat(margin.right);
+	const frame = (line: string) => marginLeft + line + marginRight;
+
+	const rule = (fill: string, left: string, right: string, label = '') => {
+		if (fill === '') {
+			return label ? frame(padStyled(titleColor(label), inner, align)) : null;
+		}
+		const remaining = Math.max(0, inner - visibleWidth(label));
+		const before =
+			align === 'left'
+				? 0
+				: align === 'right'
+					? remaining
+					: Math.floor(remaining / 2);
+		const parts = [
+			color(left + fill.repeat(before)),
+			label ? titleColor(label) : '',
+			color(fill.repeat(remaining - before) + right),
+		];
+		return frame(parts.join(''));
+	};
+
+	const body = [
+		...Array<string>(padding.top).fill(''),
+		...lines,
+		...Array<string>(padding.bottom).fill(''),
+	].map((line) =>
+		frame(
+			color(border.left) +
+				' '.repeat(padding.left) +
+				padStyled(line, contentWidth) +
+				' '.repeat(padding.right) +
+				color(border.right),
+		),
+	);
+
+	const output = [
+		...Array<string>(margin.top).fill(''),
+		rule(border.top, border.topLeft, border.topRight, label),
+		...body,
+		rule(border.bottom, border.bottomLeft, border.bottomRight),
+		...Array<string>(margin.bottom).fill(''),
+	];
+
+	return output.filter((line) => line !== null).join('\n');
+}
+
+/**
+ * Draws a box with a title, a shorthand for `box(content, { ...param, title })`.
+ *
+ * @param title - The title shown in the top border.
+ * @param content - The content to frame.
+ * @param param - Configuration options for the box, see `box`.
+ * @returns A string representing the panel.
+ */
+export function panel(
+	title: string | number,
+	content: string,
+	param: Omit<BoxParam, 'title'> = {},
+): string {
+	return box(content, { ...param, title });
+}
+
+function resolveSpacing(
+	spacing: BoxSpacing | undefined,
+	defaults: { top?: number; right?: number; bottom?: number; left?: number },
+) {
+	const sides =
+		typeof spacing === 'number'
+			? { top: spacing, right: spacing, bottom: spacing, left: spacing }
+			: { ...defaults, ...spacing };
+	return {
+		top: sides.top ?? 0,
+		right: sides.right ?? 0,
+		bottom: sides.bottom ?? 0,
+		left: sides.left ?? 0,
+	};
+}
@@ -0,0 +1,127 @@
+import { detectRuntime } from './getRuntime';
+
+/**
+ * The color level a renderer can be asked to produce:
+ * - `"none"`: no styling at all.
+ * - `16`: the basic ANSI palette.
+ * - `256`: the xterm 256-color palette.
+ * - `"truecolor"`: 24-bit colors.
+ * - `"auto"`: negotiated from the environment, see `detectColorLevel`.
+ */
+export type ColorLevel = 'none' | 16 | 256 | 'truecolor' | 'auto';
+
+/**
+ * Numeric color depth, matching chalk's levels:
+ * `0` none, `1` basic 16 colors, `2` 256 colors, `3` truecolor.
+ */
+export type ColorDepth = 0 | 1 | 2 | 3;
+
+/**
+ * Reads an environment variable on Node, Bun and Deno.
+ * Returns `undefined` in browsers, or when Deno denies env access.
+ *
+ * @internal
+ */
+export function readEnv(name: string): string | undefined {
+	const runtime = detectRuntime();
+	try {
+		if (runtime === 'deno') return Deno.env.get(name);
+		if (runtime === 'node' || runtime === 'bun') return process.env[name];
+	} catch {
+		return undefined;
+	}
+	return undefined;
+}
+
+/**
+ * Checks whether the standard output is attached to a terminal.
+ */
+function isStdoutTTY(): boolean {
+	const runtime = detectRuntime();
+	try {
+		if (runtime === 'deno') return Deno.stdout.isTerminal();
+		if (runtime === 'node' || runtime === 'bun') {
+			return Boolean(process.stdout?.isTTY);
+		}
+	} catch {
+		return false;
+	}
+	return false;
+}
+
+/**
+ * Interprets the `FORCE_COLOR` variable the same way chalk and
+ * supports-color do: `0`/`false` disables colors, `1`/`true`/empty forces
+ * basic colors, `2` and `3` force 256 colors and truecolor.
+ */
+function forcedDepth(value: string): ColorDepth {
+	if (value === 'false' || value === '0') return 0;
+	if (value === '' || value === 'true' || value === '1') return 1;
+	const level = Math.min(Number.parseInt(value, 10), 3);
+	return (Number.isNaN(level) ? 1 : Math.max(level, 0)) as ColorDepth;
+}
+
+/**
+ * Detects the color depth supported by the current environment.
+ *
+ * The negotiation follows, in order:
+ * 1. `NO_COLOR` (any non-empty value) disables colors.
+ * 2. `FORCE_COLOR` forces a level, even when stdout is not a TTY.
+ * 3. Browsers get truecolor, since console styling is CSS based.
+ * 4. A non-TTY output (pipes, files) or `TERM=dumb` disables colors.
+ * 5. `COLORTERM=truecolor|24bit` gives truecolor, a `TERM` ending with
+ *    `256color` gives 256 colors, anything else gives the basic palette.
+ *
+ * @param isTTY - Whether the output is a terminal. Defaults to whether
+ * stdout is one.
+ * @returns The detected color depth, from `0` (none) to `3` (truecolor).
+ */
+export function detectColorLevel(isTTY = isStdoutTTY()): ColorDepth {
+	const noColor = readEnv('NO_COLOR');
+	if (noColor !== undefined && noColor !== '') return 0;
+
+	const forceColor = readEnv('FORCE_COLOR');
+	if (forceColor !== undefined) return forcedDepth(forceColor);
+
+	if (detectRuntime() === 'browser') return 3;
+
+	if (!isTTY) return 0;
+
+	const term = readEnv('TERM') || '';
+	if (term === 'dumb') return 0;
+
+	const colorTerm = readEnv('COLORTERM') || '';
+	if (colorTerm === 'truecolor' || colorTerm === '24bit') return 3;
+	if (readEnv('WT_SESSION') !== undefined) return 3;
+
+	if (/-256(color)?$/i.test(term)) return 2;
+
+	return 1;
+}
+
+/**
+ * Resolves a `ColorLevel` option into a numeric color depth,
+ * running the environment detection for `"auto"`.
+ *
+ * @param level - The requested color level. Defaults to `"auto"`.
+ * @param isTTY - Whether the output is a terminal, for `"auto"`. Defaults
+ * to whether stdout is one.
+ * @returns The color depth, from `0` (none) to `3` (truecolor).
+ */
+export function resolveColorLevel(
+	level: ColorLevel = 'auto',
+	isTTY?: boolean,
+): ColorDepth {
+	switch (level) {
+		case 'none':
+			return 0;
+		case 16:
+			return 1;
+		case 256:
+			return 2;
+		case 'truecolor':
+			return 3;
+		default:
+			return detectColorLevel(isTTY);
+	}
+}
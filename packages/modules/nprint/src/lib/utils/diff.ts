@@ -0,0 +1,419 @@
+import { code } from '../code/code';
+import { Theme } from '../code/regitery';
+import { bgHex, ColorFn } from '../cols/colorPack';
+import { ChalkStyleKeys } from '../cols/colorPolify';
+import { escapePseudoLang, writePseudoColorLang } from '../lang/pseudoLang';
+import { inspect } from './inspect';
+import { padStyled, splitStyledLines, truncateStyled } from './styledText';
+import { getTerminalWidth } from './terminal';
+import { stripStyles } from './visibleText';
+
+export type DiffStyle = ChalkStyleKeys | ColorFn;
+
+export interface DiffColors {
+	/** Removed lines. Defaults to "red". */
+	removed: DiffStyle;
+	/** Added lines. Defaults to "green". */
+	added: DiffStyle;
+	/** The changed words or characters of a removed line. */
+	removedHighlight: DiffStyle;
+	/** The changed words or characters of an added line. */
+	addedHighlight: DiffStyle;
+	/** The background of removed lines when they are highlighted with `lang`. */
+	removedLine: DiffStyle;
+	/** The background of added lines when they are highlighted with `lang`. */
+	addedLine: DiffStyle;
+	/** The `@@ -1,3 +1,4 @@` hunk headers. Defaults to "cyan". */
+	hunk: DiffStyle;
+	/** The `---`/`+++` labels. Defaults to "bold". */
+	header: DiffStyle;
+}
+
+export interface DiffParam {
+	/**
+	 * "lines" marks whole lines, "words" and "chars" also highlight what
+	 * changed inside a modified line. Defaults to "lines".
+	 */
+	mode?: 'lines' | 'words' | 'chars';
+	/** One column with -/+ lines, or both sides next to each other. Defaults to "unified". */
+	layout?: 'unified' | 'split';
+	/** The unchanged lines shown around each change. Defaults to 3. */
+	context?: number;
+	colors?: Partial<DiffColors>;
+	/** Highlights both sides with `code()`. The language must be registered. */
+	lang?: string;
+	/** The code theme used with `lang`. Defaults to "githubDark". */
+	theme?: Theme;
+	/** The names of both sides, shown as `--- a` and `+++ b` headers. */
+	labels?: [string, string];
+	/** The total width of the split layout. Defaults to the terminal width. */
+	width?: number;
+}
+
+const defaultColors: DiffColors = {
+	removed: 'red',
+	added: 'green',
+	removedHighlight: bgHex('#8b1a1a').whiteBright,
+	addedHighlight: bgHex('#1a6b2e').whiteBright,
+	removedLine: bgHex('#3d1418'),
+	addedLine: bgHex('#13361f'),
+	hunk: 'cyan',
+	header: 'bold',
+};
+
+interface Edit {
+	type: 'equal' | 'delete' | 'insert';
+	/** The position in the first sequence. */
+	a: number;
+	/** The position in the second sequence. */
+	b: number;
+}
+
+type Row =
+	| { type: 'equal'; a: number; b: number }
+	| { type: 'delete'; a: number }
+	| { type: 'insert'; b: number };
+
+/**
+ * Compares two texts, or any two values, and shows what changed, with
+ * removed lines in red and added lines in green. Values other than strings
+ * are compared through `inspect`. Strings are taken as plain text.
+ *
+ * @param a - The old text or value.
+ * @param b - The new text or value.
+ * @param param - Configuration options for the diff.
+ * @param param.mode - "lines", "words" or "chars". Defaults to "lines".
+ * @param param.layout - "unified" or "split". Defaults to "unified".
+ * @param param.context - The unchanged lines around each change. Defaults to 3.
+ * @param param.colors - Overrides of the default colors, style names or functions such as `bgHex('#333')`.
+ * @param param.lang - Highlights both sides with `code()`; changed lines then get a background instead of word highlights.
+ * @param param.theme - The code theme used with `lang`.
+ * @param param.labels - The names of both sides, shown as headers.
+ * @param param.width - The total width of the split layout. Defaults to the terminal width.
+ *
+ * @returns The diff as a pseudo-language string, empty when nothing changed.
+ *
+ * @example
+ * ```typescript
+ * diff('a\nb\nc', 'a\nB\nc', { mode: 'words', labels: ['before', 'after'] });
+ * // --- before
+ * // +++ after
+ * // @@ -1,3 +1,3 @@
+ * //   a
+ * // - b
+ * // + B
+ * //   c
+ * ```
+ */
+export function diff(a: unknown, b: unknown, param: DiffParam = {}): string {
+	const mode = param.mode || 'lines';
+	const context = Math.max(0, param.context ?? 3);
+	const colors = { ...defaultColors, ...param.colors };
+	const paint = (key: keyof DiffColors, text: string) => {
+		const style = colors[key];
+		if (text === '') return '';
+		return typeof style === 'function'
+			? style(text)
+			: writePseudoColorLang([style], text);
+	};
+
+	const linesA = toText(a).split(/\r?\n/);
+	const linesB = toText(b).split(/\r?\n/);
+	const rows = toRows(diffSequences(linesA, linesB));
+	if (rows.every((row) => row.type === 'equal')) return '';
+
+	// The content of every line, without the -/+ markers
+	let shownA: string[];
+	let shownB: string[];
+	if (param.lang) {
+		const highlight = (lines: string[]) =>
+			splitStyledLines(
+				code({
+					lang: param.lang!,
+					content: lines.join('\n'),
+					theme: param.theme,
+				}),
+			);
+		shownA = highlight(linesA);
+		shownB = highlight(linesB);
+		for (const row of rows) {
+			if (row.type === 'delete') {
+				shownA[row.a] = paint('removedLine', shownA[row.a]);
+			} else if (row.type === 'insert') {
+				shownB[row.b] = paint('addedLine', shownB[row.b]);
+			}
+		}
+	} else {
+		shownA = linesA.map(escapePseudoLang);
+		shownB = linesB.map(escapePseudoLang);
+		for (const row of rows) {
+			if (row.type === 'delete')
+				shownA[row.a] = paint('removed', shownA[row.a]);
+			if (row.type === 'insert') shownB[row.b] = paint('added', shownB[row.b]);
+		}
+		if (mode !== 'lines') {
+			for (const [i, j] of pairChanges(rows)) {
+				[shownA[i], shownB[j]] = highlightChanges(
+					linesA[i],
+					linesB[j],
+					mode,
+					paint,
+				);
+			}
+		}
+	}
+
+	const output: string[] = [];
+	if (param.labels) {
+		output.push(paint('header', `--- ${param.labels[0]}`));
+		output.push(paint('header', `+++ ${param.labels[1]}`));
+	}
+
+	const colWidth = Math.max(
+		4,
+		Math.floor(((param.width ?? getTerminalWidth()) - 3) / 2),
+	);
+	const cell = (marker: string, text: string | undefined) =>
+		text === undefined
+			? ' '.repeat(colWidth)
+			: padStyled(truncateStyled(`${marker} ${text}`, colWidth), colWidth);
+	const separator = writePseudoColorLang(['gray'], ' │ ');
+
+	for (const [start, end] of toHunks(rows, context)) {
+		const hunk = rows.slice(start, end);
+		output.push(paint('hunk', hunkHeader(rows, start, end)));
+
+		if (param.layout !== 'split') {
+			for (const row of hunk) {
+				if (row.type === 'equal') output.push(`  ${shownA[row.a]}`);
+				else if (row.type === 'delete')
+					output.push(`${paint('removed', '-')} ${shownA[row.a]}`);
+				else output.push(`${paint('added', '+')} ${shownB[row.b]}`);
+			}
+			continue;
+		}
+
+		for (let i = 0; i < hunk.length;) {
+			const row = hunk[i];
+			if (row.type === 'equal') {
+				output.push(
+					cell(' ', shownA[row.a]) + separator + cell(' ', shownB[row.b]),
+				);
+				i++;
+				continue;
+			}
+			const removed: number[] = [];
+			const added: number[] = [];
+			for (; i < hunk.length && hunk[i].type !== 'equal'; i++) {
+				const change = hunk[i];
+				if (change.type === 'delete') removed.push(change.a);
+				if (change.type === 'insert') added.push(change.b);
+			}
+			for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+				const left = removed[k] === undefined ? undefined : shownA[removed[k]];
+				const right = added[k] === undefined ? undefined : shownB[added[k]];
+				output.push(
+					cell(paint('removed', '-'), left) +
+						separator +
+						cell(paint('added', '+'), right),
+				);
+			}
+		}
+	}
+
+	return output.join('\n');
+}
+
+function toText(value: unknown): string {
+	if (typeof value === 'string') return value;
+	return stripStyles(inspect(value, { compact: false, sortKeys: true }));
+}
+
+/**
+ * Turns an edit script into rows, every run of changes listing its
+ * removed lines before its added ones.
+ */
+function toRows(edits: Edit[]): Row[] {
+	const rows: Row[] = [];
+	let added: Row[] = [];
+	for (const edit of edits) {
+		if (edit.type === 'equal') {
+			rows.push(...added, { type: 'equal', a: edit.a, b: edit.b });
+			added = [];
+		} else if (edit.type === 'delete') {
+			rows.push({ type: 'delete', a: edit.a });
+		} else {
+			added.push({ type: 'insert', b: edit.b });
+		}
+	}
+	rows.push(...added);
+	return rows;
+}
+
+/**
+ * Pairs the removed and added lines of each run of changes, in order:
+ * these are the modified lines whose words are compared.
+ */
+function pairChanges(rows: Row[]): [number, number][] {
+	const pairs: [number, number][] = [];
+	let removed: number[] = [];
+	let added: number[] = [];
+	const flush = () => {
+		for (let k = 0; k < Math.min(removed.length, added.length); k++) {
+			pairs.push([removed[k], added[k]]);
+		}
+		removed = [];
+		added = [];
+	};
+	for (const row of rows) {
+		if (row.type === 'equal') flush();
+		else if (row.type === 'delete') removed.push(row.a);
+		else added.push(row.b);
+	}
+	flush();
+	return pairs;
+}
+
+function highlightChanges(
+	lineA: string,
+	lineB: string,
+	mode: 'words' | 'chars',
+	paint: (key: keyof DiffColors, text: string) => string,
+): [string, string] {
+	const split = (line: string) =>
+		mode === 'chars'
+			? Array.from(line)
+			: (line.match(/\w+|\s+|[^\w\s]/gu) ?? []);
+	const tokensA = split(lineA);
+	const tokensB = split(lineB);
+
+	let shownA = '';
+	let shownB = '';
+	for (const run of toRuns(diffSequences(tokensA, tokensB))) {
+		if (run.type === 'equal') {
+			const text = escapePseudoLang(
+				run.items.map((e) => tokensA[e.a]).join(''),
+			);
+			shownA += paint('removed', text);
+			shownB += paint('added', text);
+		} else if (run.type === 'delete') {
+			const text = run.items.map((e) => tokensA[e.a]).join('');
+			shownA += paint('removedHighlight', escapePseudoLang(text));
+		} else {
+			const text = run.items.map((e) => tokensB[e.b]).join('');
+			shownB += paint('addedHighlight', escapePseudoLang(text));
+		}
+	}
+	return [shownA, shownB];
+}
+
+function toRuns(edits: Edit[]): { type: Edit['type']; items: Edit[] }[] {
+	const runs: { type: Edit['type']; items: Edit[] }[] = [];
+	for (const edit of edits) {
+		const last = runs[runs.length - 1];
+		if (last && last.type === edit.type) last.items.push(edit);
+		else runs.push({ type: edit.type, items: [edit] });
+	}
+	return runs;
+}
+
+/**
+ * Cuts the rows into hunks: the `[start, end)` ranges of rows holding the
+ * changes with `context` unchanged rows around them, merged when they
+ * overlap.
+ */
+function toHunks(rows: Row[], context: number): [number, number][] {
+	const ranges: [number, number][] = [];
+	rows.forEach((row, i) => {
+		if (row.type === 'equal') return;
+		const start = Math.max(0, i - context);
+		const end = Math.min(rows.length, i + context + 1);
+		const last = ranges[ranges.length - 1];
+		if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+		else ranges.push([start, end]);
+	});
+	return ranges;
+}
+
+/**
+ * Writes the `@@ -start,count +start,count @@` header of a hunk. Like
+ * `diff -u`, an empty side starts at the line before the hunk.
+ */
+function hunkHeader(rows: Row[], start: number, end: number): string {
+	const range = (kept: Row['type']) => {
+		const isKept = (row: Row) => row.type === 'equal' || row.type === kept;
+		const before = rows.slice(0, start).filter(isKept).length;
+		const count = rows.slice(start, end).filter(isKept).length;
+		const first = count === 0 ? before : before + 1;
+		return count === 1 ? `${first}` : `${first},${count}`;
+	};
+	return `@@ -${range('delete')} +${range('insert')} @@`;
+}
+
+/**
+ * Computes the shortest edit script turning `a` into `b` with Myers'
+ * algorithm, once their common prefix and suffix are set aside.
+ */
+function diffSequences<T>(a: readonly T[], b: readonly T[]): Edit[] {
+	let start = 0;
+	while (start < a.length && start < b.length && a[start] === b[start]) {
+		start++;
+	}
+	let endA = a.length;
+	let endB = b.length;
+	while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+		endA--;
+		endB--;
+	}
+
+	const n = endA - start;
+	const m = endB - start;
+	const offset = n + m + 1;
+	const v = new Int32Array(2 * offset + 1);
+	// trace[d] holds the furthest x of each diagonal k in [-d, d] after d edits
+	const trace: Int32Array[] = [];
+
+	search: for (let d = 0; d <= n + m; d++) {
+		for (let k = -d; k <= d; k += 2) {
+			let x =
+				k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+					? v[offset + k + 1]
+					: v[offset + k - 1] + 1;
+			let y = x - k;
+			while (x < n && y < m && a[start + x] === b[start + y]) {
+				x++;
+				y++;
+			}
+			v[offset + k] = x;
+			if (x >= n && y >= m) break search;
+		}
+		trace.push(v.slice(offset - d, offset + d + 1));
+	}
+
+	const middle: Edit[] = [];
+	const push = (type: Edit['type'], x: number, y: number) =>
+		middle.push({ type, a: start + x, b: start + y });
+
+	let x = n;
+	let y = m;
+	for (let d = trace.length; d > 0; d--) {
+		const at = (k: number) => trace[d - 1][k + d - 1];
+		const k = x - y;
+		const prevK =
+			k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+		const prevX = at(prevK);
+		const prevY = prevX - prevK;
+		while (x > prevX && y > prevY) push('equal', --x, --y);
+		if (x === prevX) push('insert', x, --y);
+		else push('delete', --x, y);
+	}
+	while (x > 0 && y > 0) push('equal', --x, --y);
+
+	const edits: Edit[] = [];
+	for (let i = 0; i < start; i++) edits.push({ type: 'equal', a: i, b: i });
+	edits.push(...middle.reverse());
+	for (let i = 0; i < a.length - endA; i++) {
+		edits.push({ type: 'equal', a: endA + i, b: endB + i });
+	}
+	return edits;
+}
@@ -2,6 +2,7 @@ import { ColorFn } from '../cols/colorPack';
 import { ChalkStyleKeys } from '../cols/colorPolify';
 import { writePseudoColorLang } from '../lang/pseudoLang';
 import { getTerminalWidth } from './terminal';
+import { visibleWidth } from './visibleText';
 
 export interface horizontalRuleParam {
 	char?: string;
@@ -52,7 +53,7 @@ export function hr(param: horizontalRuleParam = {}): string {
 			: writePseudoColorLang([titleColor || 'gray'], titleWithSpace)
 		: '';
 
-	const remaining = width - titleWithSpace.length;
+	const remaining = Math.max(0, width - visibleWidth(titleWithSpace));
 	const left = Math.floor(remaining / 2);
 	const right = remaining - left;
 
@@ -0,0 +1,334 @@
+import { cols } from '../cols/colorPack';
+import { getTheme, Theme } from '../code/regitery';
+import { escapePseudoLang } from '../lang/pseudoLang';
+import { visibleWidth } from './visibleText';
+
+/**
+ * The kinds of tokens `inspect` colors.
+ */
+export type InspectToken =
+	| 'string'
+	| 'number'
+	| 'boolean'
+	| 'null'
+	| 'undefined'
+	| 'symbol'
+	| 'date'
+	| 'regexp'
+	| 'key'
+	| 'className'
+	| 'special'
+	| 'error';
+
+type StyleFn = (...x: string[]) => string;
+
+const defaultPalette: Record<InspectToken, StyleFn> = {
+	string: cols.green,
+	number: cols.yellow,
+	boolean: cols.yellow,
+	null: cols.bold,
+	undefined: cols.gray,
+	symbol: cols.green,
+	date: cols.magenta,
+	regexp: cols.red,
+	key: (x) => x,
+	className: cols.cyan,
+	special: cols.cyan,
+	error: cols.red,
+};
+
+/**
+ * The code theme selectors a token takes its style from, the first one
+ * defined by the theme wins.
+ */
+const themeSelectors: Record<InspectToken, string[]> = {
+	string: ['.hljs-string'],
+	number: ['.hljs-number'],
+	boolean: ['.hljs-literal'],
+	null: ['.hljs-literal'],
+	undefined: ['.hljs-comment'],
+	symbol: ['.hljs-symbol'],
+	date: ['.hljs-built_in', '.hljs-number'],
+	regexp: ['.hljs-regexp', '.hljs-string'],
+	key: ['.hljs-attr'],
+	className: ['.hljs-title.class_', '.hljs-title'],
+	special: ['.hljs-meta', '.hljs-comment'],
+	error: ['.hljs-deletion'],
+};
+
+export interface InspectOptions {
+	/** How deep nested objects are shown. Defaults to 4. */
+	depth?: number;
+	/** Sorts object keys alphabetically. Defaults to false. */
+	sortKeys?: boolean;
+	/**
+	 * Prints short values on one line: `true` when they fit in 72 cells, a
+	 * number sets the width, `false` always breaks lines. Defaults to true.
+	 */
+	compact?: boolean | number;
+	/** The indentation of nested values. Defaults to 2. */
+	indent?: number;
+	/** The number of array, Map and Set items shown. Defaults to 100. */
+	maxItems?: number;
+	/** Colors the output with a code theme, see `code()`. */
+	theme?: Theme;
+}
+
+/**
+ * Pretty-prints any value as pseudo-language, the same way in terminals
+ * and browser consoles. Handles objects, arrays, Maps, Sets, Dates,
+ * Errors, class instances and ndata `Result`s, with cycle detection.
+ *
+ * @param value - The value to print.
+ * @param options - Printing options, see `InspectOptions`.
+ * @returns The pseudo-language representation of the value.
+ *
+ * @example
+ * ```typescript
+ * console.log(...render(inspect({ id: 1, tags: new Set(['a']) })));
+ * // { id: 1, tags: Set(1) { 'a' } }
+ * ```
+ */
+export function inspect(value: unknown, options: InspectOptions = {}): string {
+	const depth = options.depth ?? 4;
+	const indent = ' '.repeat(options.indent ?? 2);
+	const maxItems = options.maxItems ?? 100;
+	const compact =
+		options.compact === false
+			? 0
+			: options.compact === true || options.compact === undefined
+				? 72
+				: options.compact;
+	const themeStyles: Record<string, StyleFn[]> | undefined = options.theme
+		? getTheme(options.theme).styles
+		: undefined;
+
+	const styles = {} as Record<InspectToken, StyleFn>;
+	for (const token of Object.keys(defaultPalette) as InspectToken[]) {
+		const selector = themeSelectors[token].find(
+			(s) => themeStyles?.[s] !== undefined,
+		);
+		const fns = selector ? themeStyles![selector] : undefined;
+		styles[token] = fns
+			? (text) => fns.reduce((acc, fn) => fn(acc), text)
+			: defaultPalette[token];
+	}
+	const paint = (token: InspectToken, text: string) =>
+		styles[token](escapePseudoLang(text));
+
+	const ancestors: object[] = [];
+
+	const format = (current: unknown, level: number): string => {
+		switch (typeof current) {
+			case 'string':
+				return paint('string', quote(current));
+			case 'number':
+				return paint('number', Object.is(current, -0) ? '-0' : String(current));
+			case 'bigint':
+				return paint('number', `${current}n`);
+			case 'boolean':
+				return paint('boolean', String(current));
+			case 'undefined':
+				return paint('undefined', 'undefined');
+			case 'symbol':
+				return paint('symbol', current.toString());
+			case 'function':
+				return paint('special', describeFunction(current));
+		}
+		if (current === null) return paint('null', 'null');
+
+		const object = current as object;
+		if (object instanceof Date) {
+			const time = object.getTime();
+			return paint('date', isNaN(time) ? 'Invalid Date' : object.toISOString());
+		}
+		if (object instanceof RegExp) return paint('regexp', String(object));
+		if (ancestors.includes(object)) return paint('special', '[Circular]');
+
+		const name = className(object);
+		if (level > depth) {
+			return paint('special', `[${Array.isArray(object) ? 'Array' : name}]`);
+		}
+
+		ancestors.push(object);
+		try {
+			return formatObject(object, name, level);
+		} finally {
+			ancestors.pop();
+		}
+	};
+
+	const formatObject = (
+		object: object,
+		name: string,
+		level: number,
+	): string => {
+		if (object instanceof Error) {
+			const stack = object.stack ?? `${object.name}: ${object.message}`;
+			const props = ownEntries(object).filter(([key]) => key !== 'stack');
+			if ('cause' in object && !props.some(([key]) => key === 'cause')) {
+				props.push(['cause', object.cause]);
+			}
+			const head = paint('error', stack);
+			return props.length === 0
+				? head
+				: `${head} ${group('{', '}', formatEntries(props, level), level)}`;
+		}
+
+		if (isResult(object)) {
+			return object.isErr()
+				? `${paint('error', 'Err')}(${format(object.error, level + 1)})`
+				: `${paint('className', 'Ok')}(${format(object.value, level + 1)})`;
+		}
+
+		if (Array.isArray(object)) {
+			const items = object
+				.slice(0, maxItems)
+				.map((item) => format(item, level + 1));
+			if (object.length > maxItems) items.push(more(object.length - maxItems));
+			const prefix =
+				name === 'Array'
+					? ''
+					: `${paint('className', name)}(${object.length}) `;
+			return prefix + group('[', ']', items, level);
+		}
+
+		if (object instanceof Map) {
+			const items = [...object]
+				.slice(0, maxItems)
+				.map(
+					([key, item]) =>
+						`${format(key, level + 1)} => ${format(item, level + 1)}`,
+				);
+			if (object.size > maxItems) items.push(more(object.size - maxItems));
+			return `${paint('className', name)}(${object.size}) ${group('{', '}', items, level)}`;
+		}
+
+		if (object instanceof Set) {
+			const items = [...object]
+				.slice(0, maxItems)
+				.map((item) => format(item, level + 1));
+			if (object.size > maxItems) items.push(more(object.size - maxItems));
+			return `${paint('className', name)}(${object.size}) ${group('{', '}', items, level)}`;
+		}
+
+		const body = group(
+			'{',
+			'}',
+			formatEntries(ownEntries(object), level),
+			level,
+		);
+		if (name === 'Object') return body;
+		return `${paint('className', name)} ${body}`;
+	};
+
+	const ownEntries = (object: object): [string | symbol, unknown][] => {
+		const keys: (string | symbol)[] = Object.keys(object);
+		if (options.sortKeys) keys.sort();
+		const symbols = Object.getOwnPropertySymbols(object).filter(
+			(symbol) => Object.getOwnPropertyDescriptor(object, symbol)?.enumerable,
+		);
+		return [...keys, ...symbols].map((key) => {
+			// Accessors are not called, a getter may throw or have side effects
+			const { get, set, value } = Object.getOwnPropertyDescriptor(object, key)!;
+			if (!get && !set) return [key, value];
+			const kind = get && set ? 'Getter/Setter' : get ? 'Getter' : 'Setter';
+			return [key, new Accessor(kind)];
+		});
+	};
+
+	const formatEntries = (
+		entries: [string | symbol, unknown][],
+		level: number,
+	) =>
+		entries.map(([key, item]) => {
+			const formatted =
+				item instanceof Accessor
+					? paint('special', `[${item.kind}]`)
+					: format(item, level + 1);
+			return `${formatKey(key)}: ${formatted}`;
+		});
+
+	const formatKey = (key: string | symbol) => {
+		if (typeof key === 'symbol') return `[${paint('symbol', key.toString())}]`;
+		return /^[A-Za-z_$][\w$]*$/.test(key)
+			? paint('key', key)
+			: paint('string', quote(key));
+	};
+
+	const more = (count: number) =>
+		paint('special', `... ${count} more item${count > 1 ? 's' : ''}`);
+
+	/**
+	 * Lays out the items of a container on one line when they fit,
+	 * one per line otherwise.
+	 */
+	const group = (
+		open: string,
+		close: string,
+		items: string[],
+		level: number,
+	) => {
+		if (items.length === 0) return open + close;
+
+		const line = `${open} ${items.join(', ')} ${close}`;
+		const fits =
+			!line.includes('\n') &&
+			visibleWidth(line) + indent.length * level <= compact;
+		if (fits) return line;
+
+		// Nested groups are already indented for their own level.
+		const inner = indent.repeat(level + 1);
+		const lines = items.map((item) => inner + item);
+		return `${open}\n${lines.join(',\n')}\n${indent.repeat(level)}${close}`;
+	};
+
+	return format(value, 0);
+}
+
+/**
+ * Stands for an accessor property, printed instead of its value.
+ */
+class Accessor {
+	constructor(public kind: 'Getter' | 'Setter' | 'Getter/Setter') {}
+}
+
+function quote(text: string): string {
+	const escaped = text
+		.replaceAll('\\', '\\\\')
+		.replaceAll("'", "\\'")
+		.replaceAll('\n', '\\n')
+		.replaceAll('\r', '\\r')
+		.replaceAll('\t', '\\t');
+	return `'${escaped}'`;
+}
+
+function describeFunction(fn: Function): string {
+	const source = Function.prototype.toString.call(fn);
+	if (source.startsWith('class')) return `[class ${fn.name || '(anonymous)'}]`;
+	return fn.name ? `[Function: ${fn.name}]` : '[Function (anonymous)]';
+}
+
+function className(object: object): string {
+	const prototype = Object.getPrototypeOf(object);
+	if (prototype === null) return '[Object: null prototype]';
+	return prototype.constructor?.name || 'Object';
+}
+
+/**
+ * Recognizes the ndata `Result` class without depending on ndata.
+ */
+function isResult(object: object): object is {
+	value: unknown;
+	error: unknown;
+	isErr(): boolean;
+} {
+	const candidate = object as Record<string, unknown>;
+	return (
+		className(object) === 'Result' &&
+		'value' in candidate &&
+		'error' in candidate &&
+		typeof candidate.isOk === 'function' &&
+		typeof candidate.isErr === 'function'
+	);
+}
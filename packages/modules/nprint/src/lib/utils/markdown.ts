@@ -0,0 +1,865 @@
+import { code } from '../code/code';
+import { Theme } from '../code/regitery';
+import { unescapeHTML } from '../code/unescape';
+import { ColorFn, cols } from '../cols/colorPack';
+import { ChalkStyleKeys } from '../cols/colorPolify';
+import { escapePseudoLang, writePseudoColorLang } from '../lang/pseudoLang';
+import { hr } from './horizontalRule';
+import { splitStyledLines, wrapLines } from './styledText';
+import { table, TableAlign } from './table';
+import { getTerminalWidth } from './terminal';
+
+export type MarkdownStyle = ChalkStyleKeys | ColorFn;
+
+export interface MarkdownStyles {
+	/** Level 1 headings. */
+	heading1: MarkdownStyle;
+	/** Headings of level 2 to 6. */
+	heading: MarkdownStyle;
+	/** `**strong**` text. */
+	strong: MarkdownStyle;
+	/** `*emphasized*` text. */
+	emphasis: MarkdownStyle;
+	/** `~~deleted~~` text. */
+	strikethrough: MarkdownStyle;
+	/** Inline code. */
+	code: MarkdownStyle;
+	/** The text of links and images. */
+	link: MarkdownStyle;
+	/** The address shown after the text of a link. */
+	url: MarkdownStyle;
+	/** Block quotes, with their bar. */
+	quote: MarkdownStyle;
+	/** List bullets, numbers and task boxes. */
+	listMarker: MarkdownStyle;
+}
+
+export interface MarkdownParam {
+	/** The width paragraphs are wrapped to. Defaults to the terminal width. */
+	width?: number;
+	/** The theme of fenced code blocks. Defaults to "githubDark". */
+	theme?: Theme;
+	styles?: Partial<MarkdownStyles>;
+}
+
+const defaultStyles: MarkdownStyles = {
+	heading1: cols.bold.underline.magenta,
+	heading: cols.bold.magenta,
+	strong: 'bold',
+	emphasis: 'italic',
+	strikethrough: 'strikethrough',
+	code: 'cyan',
+	link: cols.underline.blue,
+	url: 'gray',
+	quote: cols.italic.gray,
+	listMarker: 'yellow',
+};
+
+const bullets = ['•', '◦', '▪'];
+
+type Block =
+	| { type: 'heading'; level: number; text: string }
+	| { type: 'paragraph'; text: string }
+	| { type: 'code'; lang: string; content: string }
+	| { type: 'quote'; blocks: Block[] }
+	| {
+			type: 'list';
+			/** The number of the first item, undefined for bullet lists. */
+			start?: number;
+			delimiter: string;
+			items: Block[][];
+			/** Whether blank lines separate the items. */
+			loose: boolean;
+	  }
+	| { type: 'table'; header: string[]; align: TableAlign[]; rows: string[][] }
+	| { type: 'hr' };
+
+/**
+ * The state shared while rendering a document.
+ */
+interface MarkdownContext {
+	styles: MarkdownStyles;
+	theme?: Theme;
+	/** The link reference definitions, keyed by normalized label. */
+	refs: Map<string, string>;
+}
+
+/**
+ * Renders CommonMark to pseudo-language, for the terminal and the browser
+ * console alike: headings, emphasis, inline code, block quotes, lists,
+ * links, tables, horizontal rules and fenced code blocks, highlighted with
+ * `code()`. Raw HTML is shown as text.
+ *
+ * @param source - The Markdown source.
+ * @param param - Configuration options for the rendering.
+ * @param param.width - The width paragraphs are wrapped to. Defaults to the terminal width.
+ * @param param.theme - The theme of fenced code blocks. Their language must be registered, others are shown as plain text.
+ * @param param.styles - Overrides of the default styles, style names or functions such as `hex('#888')`.
+ *
+ * @returns The rendered document as a pseudo-language string.
+ *
+ * @example
+ * ```typescript
+ * markdown('# Changelog\n\n- **fixed** the `--watch` flag');
+ * ```
+ */
+export function markdown(source: string, param: MarkdownParam = {}): string {
+	const width = param.width || getTerminalWidth(80);
+	const context: MarkdownContext = {
+		styles: { ...defaultStyles, ...param.styles },
+		theme: param.theme,
+		refs: new Map(),
+	};
+
+	const blocks = parseBlocks(source.split(/\r\n?|\n/), context.refs);
+	return renderBlocks(blocks, width, context, 0, false).join('\n');
+}
+
+const fencePattern = /^( {0,3})(`{3,}|~{3,})(.*)$/;
+const headingPattern = /^ {0,3}(#{1,6})(?:[ \t]+(.*))?$/;
+const hrPattern = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const quotePattern = /^ {0,3}> ?/;
+const listPattern = /^( {0,3})([-+*]|\d{1,9}[.)])(?:([ \t]+)(.*))?$/;
+const setextPattern = /^ {0,3}(=+|-+)[ \t]*$/;
+const refPattern =
+	/^ {0,3}\[([^\]]+)\]:[ \t]*<?([^\s>]+)>?(?:[ \t]+(?:"[^"]*"|'[^']*'|\([^)]*\)))?[ \t]*$/;
+const delimiterRowPattern =
+	/^ {0,3}\|?[ \t]*:?-+:?[ \t]*(\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+
+function isBlank(line: string): boolean {
+	return /^[ \t]*$/.test(line);
+}
+
+/**
+ * The width of the leading whitespace of a line, tabs stopping every 4
+ * columns.
+ */
+function indentOf(line: string): number {
+	let column = 0;
+	for (const char of line) {
+		if (char === ' ') column++;
+		else if (char === '\t') column += 4 - (column % 4);
+		else break;
+	}
+	return column;
+}
+
+/**
+ * Removes up to `width` columns of leading whitespace from a line.
+ */
+function stripIndent(line: string, width: number): string {
+	let column = 0;
+	let i = 0;
+	while (i < line.length && column < width) {
+		if (line[i] === ' ') {
+			column++;
+		} else if (line[i] === '\t') {
+			const next = column + 4 - (column % 4);
+			if (next > width) return ' '.repeat(next - width) + line.slice(i + 1);
+			column = next;
+		} else {
+			break;
+		}
+		i++;
+	}
+	return line.slice(i);
+}
+
+/**
+ * Tells whether a line starts a block that interrupts a paragraph.
+ */
+function startsBlock(line: string): boolean {
+	const item = line.match(listPattern);
+	return (
+		isFence(line) ||
+		headingPattern.test(line) ||
+		hrPattern.test(line) ||
+		quotePattern.test(line) ||
+		(item !== null &&
+			item[4] !== undefined &&
+			!isBlank(item[4]) &&
+			(!/\d/.test(item[2]) || parseInt(item[2]) === 1))
+	);
+}
+
+function isFence(line: string): boolean {
+	const fence = line.match(fencePattern);
+	return fence !== null && !(fence[2][0] === '`' && fence[3].includes('`'));
+}
+
+/**
+ * Splits a table row into its cells, `\|` being a pipe inside a cell.
+ */
+function splitRow(line: string): string[] {
+	const cells = line
+		.trim()
+		.replace(/^\|/, '')
+		.replace(/(?<!\\)\|$/, '')
+		.split(/(?<!\\)\|/);
+	return cells.map((cell) => cell.trim().replace(/\\\|/g, '|'));
+}
+
+function normalizeLabel(label: string): string {
+	return label.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Parses the blocks of a document, or of a quote or list item.
+ *
+ * @param lines - The lines, without the markers of the enclosing blocks.
+ * @param refs - Receives the link reference definitions.
+ * @param onGap - Called when a blank line separates two blocks.
+ */
+function parseBlocks(
+	lines: string[],
+	refs: Map<string, string>,
+	onGap?: () => void,
+): Block[] {
+	const blocks: Block[] = [];
+	let i = 0;
+
+	while (i < lines.length) {
+		const line = lines[i];
+		if (isBlank(line)) {
+			if (blocks.length > 0) onGap?.();
+			i++;
+			continue;
+		}
+
+		const fence = line.match(fencePattern);
+		if (fence && isFence(line)) {
+			const [, indent, marker, info] = fence;
+			const content: string[] = [];
+			i++;
+			while (i < lines.length) {
+				const closing = lines[i].match(/^ {0,3}(`+|~+)[ \t]*$/);
+				if (
+					closing &&
+					closing[1][0] === marker[0] &&
+					closing[1].length >= marker.length
+				) {
+					i++;
+					break;
+				}
+				content.push(stripIndent(lines[i], indent.length));
+				i++;
+			}
+			blocks.push({
+				type: 'code',
+				lang: unescapeHTML(info.trim().split(/\s+/)[0]),
+				content: content.join('\n'),
+			});
+			continue;
+		}
+
+		if (indentOf(line) >= 4) {
+			const content: string[] = [];
+			while (
+				i < lines.length &&
+				(isBlank(lines[i]) || indentOf(lines[i]) >= 4)
+			) {
+				content.push(stripIndent(lines[i], 4));
+				i++;
+			}
+			while (isBlank(content[content.length - 1])) content.pop();
+			blocks.push({ type: 'code', lang: '', content: content.join('\n') });
+			continue;
+		}
+
+		const heading = line.match(headingPattern);
+		if (heading) {
+			const text = (heading[2] || '').replace(/(^|[ \t]+)#+[ \t]*$/, '');
+			blocks.push({
+				type: 'heading',
+				level: heading[1].length,
+				text: text.trim(),
+			});
+			i++;
+			continue;
+		}
+
+		if (hrPattern.test(line)) {
+			blocks.push({ type: 'hr' });
+			i++;
+			continue;
+		}
+
+		if (quotePattern.test(line)) {
+			const quoted: string[] = [];
+			while (i < lines.length) {
+				if (quotePattern.test(lines[i])) {
+					quoted.push(lines[i].replace(quotePattern, ''));
+				} else if (
+					// Lazy continuation of a quoted paragraph
+					!isBlank(lines[i]) &&
+					!isBlank(quoted[quoted.length - 1]) &&
+					!startsBlock(lines[i])
+				) {
+					quoted.push(lines[i]);
+				} else {
+					break;
+				}
+				i++;
+			}
+			blocks.push({ type: 'quote', blocks: parseBlocks(quoted, refs) });
+			continue;
+		}
+
+		const firstItem = line.match(listPattern);
+		if (firstItem) {
+			const ordered = /\d/.test(firstItem[2]);
+			const delimiter = firstItem[2].slice(-1);
+			const items: Block[][] = [];
+			let loose = false;
+
+			// Items of another kind, or with another delimiter, start a new list
+			const matchItem = (line = '') => {
+				const item = line.match(listPattern);
+				return item &&
+					!hrPattern.test(line) &&
+					/\d/.test(item[2]) === ordered &&
+					item[2].slice(-1) === delimiter
+					? item
+					: null;
+			};
+
+			while (i < lines.length) {
+				const item = matchItem(lines[i]);
+				if (!item) break;
+
+				// The content starts 1 to 4 columns after the marker, further
+				// indented content being indented code
+				const [, indent, marker, spacing = '', rest = ''] = item;
+				const markerEnd = indent.length + marker.length;
+				const gap = indentOf(' '.repeat(markerEnd) + spacing) - markerEnd;
+				const contentIndent =
+					isBlank(rest) || gap > 4 ? markerEnd + 1 : markerEnd + gap;
+				const itemLines = [gap > 4 ? ' '.repeat(gap - 1) + rest : rest];
+				i++;
+
+				while (i < lines.length) {
+					const next = lines[i];
+					if (isBlank(next)) {
+						itemLines.push('');
+					} else if (indentOf(next) >= contentIndent) {
+						itemLines.push(stripIndent(next, contentIndent));
+					} else if (
+						!isBlank(itemLines[itemLines.length - 1]) &&
+						!startsBlock(next) &&
+						!listPattern.test(next)
+					) {
+						itemLines.push(next);
+					} else {
+						break;
+					}
+					i++;
+				}
+
+				let trailing = 0;
+				while (
+					itemLines.length > 1 &&
+					isBlank(itemLines[itemLines.length - 1])
+				) {
+					itemLines.pop();
+					trailing++;
+				}
+				items.push(parseBlocks(itemLines, refs, () => (loose = true)));
+
+				// Blank lines after the last item are not part of the list
+				if (trailing > 0) {
+					if (matchItem(lines[i])) loose = true;
+					else i -= trailing;
+				}
+			}
+
+			blocks.push({
+				type: 'list',
+				start: ordered ? parseInt(firstItem[2]) : undefined,
+				delimiter,
+				items,
+				loose,
+			});
+			continue;
+		}
+
+		if (
+			line.includes('|') &&
+			i + 1 < lines.length &&
+			delimiterRowPattern.test(lines[i + 1]) &&
+			splitRow(line).length === splitRow(lines[i + 1]).length
+		) {
+			const header = splitRow(line);
+			const align = splitRow(lines[i + 1]).map((cell): TableAlign => {
+				if (/^:-+:$/.test(cell)) return 'center';
+				return cell.endsWith(':') ? 'right' : 'left';
+			});
+			const rows: string[][] = [];
+			i += 2;
+			while (i < lines.length && !isBlank(lines[i]) && !startsBlock(lines[i])) {
+				const cells = splitRow(lines[i]);
+				rows.push(header.map((_cell, c) => cells[c] ?? ''));
+				i++;
+			}
+			blocks.push({ type: 'table', header, align, rows });
+			continue;
+		}
+
+		// A paragraph, possibly turned into a heading by a `===` or `---`
+		// underline
+		const paragraph: string[] = [];
+		let level = 0;
+		while (i < lines.length && !isBlank(lines[i])) {
+			const underline = lines[i].match(setextPattern);
+			if (paragraph.length > 0 && underline) {
+				level = underline[1][0] === '=' ? 1 : 2;
+				i++;
+				break;
+			}
+			if (paragraph.length > 0 && startsBlock(lines[i])) break;
+			paragraph.push(lines[i].replace(/^[ \t]+/, ''));
+			i++;
+		}
+
+		// Link reference definitions open the paragraph
+		while (paragraph.length > 0) {
+			const ref = paragraph[0].match(refPattern);
+			if (!ref) break;
+			const label = normalizeLabel(ref[1]);
+			if (!refs.has(label)) refs.set(label, ref[2]);
+			paragraph.shift();
+		}
+		if (paragraph.length === 0) continue;
+
+		const text = paragraph.join('\n').replace(/[ \t]+$/, '');
+		blocks.push(
+			level > 0
+				? { type: 'heading', level, text }
+				: { type: 'paragraph', text },
+		);
+	}
+
+	return blocks;
+}
+
+function paint(
+	context: MarkdownContext,
+	key: keyof MarkdownStyles,
+	text: string,
+): string {
+	const style = context.styles[key];
+	if (text === '') return '';
+	return typeof style === 'function'
+		? style(text)
+		: writePseudoColorLang([style], text);
+}
+
+/**
+ * Renders blocks to lines of at most `width` cells, code and tables aside.
+ *
+ * @param depth - The nesting level of lists, picking their bullet.
+ * @param tight - Whether the blocks are those of a tight list item, not
+ * separated by blank lines.
+ */
+function renderBlocks(
+	blocks: Block[],
+	width: number,
+	context: MarkdownContext,
+	depth: number,
+	tight: boolean,
+): string[] {
+	const lines: string[] = [];
+	blocks.forEach((block, i) => {
+		if (i > 0 && !tight) lines.push('');
+		lines.push(...renderBlock(block, width, context, depth));
+	});
+	return lines;
+}
+
+function renderBlock(
+	block: Block,
+	width: number,
+	context: MarkdownContext,
+	depth: number,
+): string[] {
+	switch (block.type) {
+		case 'heading':
+			return wrapLines(
+				paint(
+					context,
+					block.level === 1 ? 'heading1' : 'heading',
+					renderInline(block.text, context),
+				),
+				width,
+			);
+
+		case 'paragraph':
+			return wrapLines(renderInline(block.text, context), width);
+
+		case 'code':
+			return splitStyledLines(
+				code({
+					lang: block.lang,
+					content: block.content,
+					theme: context.theme,
+				}),
+			).map((line) => (line === '' ? '' : '  ' + line));
+
+		case 'quote':
+			return renderBlocks(block.blocks, width - 2, context, depth, false).map(
+				(line) => paint(context, 'quote', line === '' ? '│' : '│ ' + line),
+			);
+
+		case 'list': {
+			const markers = block.items.map((_item, n) =>
+				block.start === undefined
+					? bullets[depth % bullets.length]
+					: `${block.start + n}${block.delimiter}`,
+			);
+			const markerWidth = Math.max(...markers.map((m) => m.length)) + 1;
+
+			return block.items.flatMap((item, n) => {
+				let marker = markers[n].padEnd(markerWidth);
+
+				// GitHub task list items, `- [ ]` and `- [x]`
+				const first = item[0];
+				if (first?.type === 'paragraph') {
+					const task = first.text.match(/^\[([ xX])\][ \t]+/);
+					if (task) {
+						marker += task[1] === ' ' ? '☐ ' : '☑ ';
+						item = [
+							{ ...first, text: first.text.slice(task[0].length) },
+							...item.slice(1),
+						];
+					}
+				}
+
+				const lines = renderBlocks(
+					item,
+					width - marker.length,
+					context,
+					depth + 1,
+					!block.loose,
+				);
+				const rendered = (lines.length > 0 ? lines : ['']).map((line, l) =>
+					l === 0
+						? paint(context, 'listMarker', marker) + line
+						: line === ''
+							? ''
+							: ' '.repeat(marker.length) + line,
+				);
+				return n > 0 && block.loose ? ['', ...rendered] : rendered;
+			});
+		}
+
+		case 'table':
+			return table(
+				block.rows.map((row) => row.map((cell) => renderInline(cell, context))),
+				{
+					columns: block.header.map((cell, c) => ({
+						header: renderInline(cell, context),
+						align: block.align[c],
+					})),
+				},
+			).split('\n');
+
+		case 'hr':
+			return [hr({ char: '─', width })];
+	}
+}
+
+type Inline =
+	| { kind: 'text'; value: string }
+	/** Already rendered pseudo-language. */
+	| { kind: 'styled'; value: string }
+	| Delimiter;
+
+/**
+ * A run of `*`, `_` or `~` that may open or close emphasis.
+ */
+interface Delimiter {
+	kind: 'delimiter';
+	char: string;
+	/** The characters not used by emphasis yet. */
+	count: number;
+	/** The length of the whole run. */
+	length: number;
+	canOpen: boolean;
+	canClose: boolean;
+}
+
+const punctuation = /[!-/:-@[-`{-~\p{P}\p{S}]/u;
+
+/**
+ * Renders the inline content of a block: code spans, links, emphasis,
+ * escapes, entities and line breaks.
+ */
+function renderInline(text: string, context: MarkdownContext): string {
+	const nodes: Inline[] = [];
+	let pending = '';
+	const flush = () => {
+		if (pending !== '') nodes.push({ kind: 'text', value: pending });
+		pending = '';
+	};
+	const pushStyled = (value: string) => {
+		flush();
+		nodes.push({ kind: 'styled', value });
+	};
+
+	let i = 0;
+	while (i < text.length) {
+		const char = text[i];
+		const rest = text.slice(i);
+
+		if (char === '\\' && i + 1 < text.length) {
+			if (text[i + 1] === '\n') {
+				pending += '\n';
+				i += 2;
+				continue;
+			}
+			if (/[!-/:-@[-`{-~]/.test(text[i + 1])) {
+				pending += text[i + 1];
+				i += 2;
+				continue;
+			}
+		}
+
+		if (char === '`') {
+			const run = rest.match(/^`+/)![0];
+			const closing = new RegExp(`(?<!\`)${run}(?!\`)`, 'g');
+			closing.lastIndex = i + run.length;
+			const end = closing.exec(text);
+			if (end) {
+				let content = text.slice(i + run.length, end.index).replace(/\n/g, ' ');
+				if (/^ .*[^ ].* $/.test(content)) content = content.slice(1, -1);
+				pushStyled(paint(context, 'code', escapePseudoLang(content)));
+				i = end.index + run.length;
+			} else {
+				pending += run;
+				i += run.length;
+			}
+			continue;
+		}
+
+		if (char === '<') {
+			const autolink = rest.match(
+				/^<([a-zA-Z][\w+.-]{1,31}:[^\s<>]*|[\w.!#$%&'*+/=?^`{|}~-]+@[a-zA-Z\d](?:[\w-]*[a-zA-Z\d])?(?:\.[a-zA-Z\d](?:[\w-]*[a-zA-Z\d])?)*)>/,
+			);
+			if (autolink) {
+				pushStyled(paint(context, 'link', escapePseudoLang(autolink[1])));
+				i += autolink[0].length;
+				continue;
+			}
+		}
+
+		if (char === '[' || (char === '!' && text[i + 1] === '[')) {
+			const link = parseLink(text, char === '!' ? i + 1 : i, context);
+			if (link) {
+				const label = renderInline(link.text, context);
+				const url =
+					link.url && stripLabel(link.text) !== link.url
+						? ' ' + paint(context, 'url', `(${escapePseudoLang(link.url)})`)
+						: '';
+				pushStyled(paint(context, 'link', label) + url);
+				i = link.end;
+				continue;
+			}
+		}
+
+		if (char === '*' || char === '_' || char === '~') {
+			const run = rest.match(
+				char === '*' ? /^\*+/ : char === '_' ? /^_+/ : /^~+/,
+			)![0];
+			const before = i > 0 ? text[i - 1] : ' ';
+			const after = i + run.length < text.length ? text[i + run.length] : ' ';
+			const leftFlanking =
+				!/\s/.test(after) &&
+				(!punctuation.test(after) ||
+					/\s/.test(before) ||
+					punctuation.test(before));
+			const rightFlanking =
+				!/\s/.test(before) &&
+				(!punctuation.test(before) ||
+					/\s/.test(after) ||
+					punctuation.test(after));
+
+			flush();
+			nodes.push({
+				kind: 'delimiter',
+				char,
+				count: run.length,
+				length: run.length,
+				canOpen:
+					leftFlanking &&
+					(char !== '_' || !rightFlanking || punctuation.test(before)),
+				canClose:
+					rightFlanking &&
+					(char !== '_' || !leftFlanking || punctuation.test(after)),
+			});
+			i += run.length;
+			continue;
+		}
+
+		if (char === '&') {
+			const entity = rest.match(/^&(?:#\d{1,7}|#x[\da-f]{1,6}|\w+);/i);
+			if (entity) {
+				pending += unescapeHTML(entity[0]);
+				i += entity[0].length;
+				continue;
+			}
+		}
+
+		if (char === '\n') {
+			// Two trailing spaces make a hard break, other breaks are spaces
+			const hard = / {2,}$/.test(pending);
+			pending = pending.replace(/ +$/, '') + (hard ? '\n' : ' ');
+			i++;
+			continue;
+		}
+
+		pending += char;
+		i++;
+	}
+	flush();
+
+	return processEmphasis(nodes, context);
+}
+
+/**
+ * Pairs the emphasis delimiters, the way CommonMark does, and joins the
+ * inline nodes.
+ */
+function processEmphasis(nodes: Inline[], context: MarkdownContext): string {
+	for (let c = 0; c < nodes.length; c++) {
+		const closer = nodes[c];
+		if (closer.kind !== 'delimiter' || !closer.canClose) continue;
+
+		let o = c - 1;
+		for (; o >= 0; o--) {
+			const opener = nodes[o];
+			if (
+				opener.kind !== 'delimiter' ||
+				opener.char !== closer.char ||
+				!opener.canOpen
+			) {
+				continue;
+			}
+			if (closer.char === '~') {
+				if (opener.count === closer.count && opener.count <= 2) break;
+				continue;
+			}
+			// The "multiple of 3" rule keeps `*a**b*` from pairing `*` with `**`
+			const oddMatch =
+				(opener.canClose || closer.canOpen) &&
+				(opener.length + closer.length) % 3 === 0 &&
+				!(opener.length % 3 === 0 && closer.length % 3 === 0);
+			if (!oddMatch) break;
+		}
+		if (o < 0) continue;
+
+		const opener = nodes[o] as Delimiter;
+		const used =
+			closer.char === '~'
+				? closer.count
+				: opener.count >= 2 && closer.count >= 2
+					? 2
+					: 1;
+		const style: keyof MarkdownStyles =
+			closer.char === '~'
+				? 'strikethrough'
+				: used === 2
+					? 'strong'
+					: 'emphasis';
+		const styled: Inline = {
+			kind: 'styled',
+			value: paint(context, style, joinInlines(nodes.slice(o + 1, c))),
+		};
+
+		opener.count -= used;
+		closer.count -= used;
+		const replacement = [
+			...(opener.count > 0 ? [opener] : []),
+			styled,
+			...(closer.count > 0 ? [closer] : []),
+		];
+		nodes.splice(o, c - o + 1, ...replacement);
+
+		// Look at what is left of the closer again
+		c = o + replacement.length - 1;
+		if (closer.count > 0) c--;
+	}
+
+	return joinInlines(nodes);
+}
+
+function joinInlines(nodes: Inline[]): string {
+	return nodes
+		.map((node) => {
+			if (node.kind === 'styled') return node.value;
+			if (node.kind === 'text') return escapePseudoLang(node.value);
+			return escapePseudoLang(node.char.repeat(node.count));
+		})
+		.join('');
+}
+
+/**
+ * Parses a link or image starting at a `[`: inline links `[text](url)`,
+ * and reference links `[text][label]`, `[label][]` and `[label]`.
+ *
+ * @returns The text, the address and the position after the link, or null
+ * when the brackets are not a link.
+ */
+function parseLink(
+	text: string,
+	start: number,
+	context: MarkdownContext,
+): { text: string; url: string; end: number } | null {
+	// Find the matching bracket, skipping escaped ones and code spans
+	let depth = 0;
+	let close = -1;
+	for (let i = start; i < text.length; i++) {
+		if (text[i] === '\\') i++;
+		else if (text[i] === '`') {
+			const run = text.slice(i).match(/^`+/)![0];
+			const end = text.indexOf(run, i + run.length);
+			if (end !== -1) i = end + run.length - 1;
+		} else if (text[i] === '[') depth++;
+		else if (text[i] === ']' && --depth === 0) {
+			close = i;
+			break;
+		}
+	}
+	if (close === -1) return null;
+
+	const label = text.slice(start + 1, close);
+	const after = text.slice(close + 1);
+
+	const inline = after.match(
+		/^\([ \t\n]*(?:<([^<>\n]*)>|((?:[^\s()\\]|\\.|\((?:[^\s()\\]|\\.)*\))*))(?:[ \t\n]+(?:"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|\((?:[^()\\]|\\.)*\)))?[ \t\n]*\)/,
+	);
+	if (inline) {
+		const url = (inline[1] ?? inline[2]).replace(/\\([!-/:-@[-`{-~])/g, '$1');
+		return {
+			text: label,
+			url: unescapeHTML(url),
+			end: close + 1 + inline[0].length,
+		};
+	}
+
+	const full = after.match(/^\[([^\]]*)\]/);
+	const key = normalizeLabel(full && full[1].trim() !== '' ? full[1] : label);
+	const url = context.refs.get(key);
+	if (url === undefined) return null;
+	return {
+		text: label,
+		url: unescapeHTML(url),
+		end: close + 1 + (full ? full[0].length : 0),
+	};
+}
+
+/**
+ * The plain text of a link label, to tell whether it already shows the
+ * address.
+ */
+function stripLabel(label: string): string {
+	return label.replace(/[\\`*_~<>]/g, '');
+}
@@ -0,0 +1,316 @@
+import {
+	escapePseudoLang,
+	matchClosingTag,
+	matchOpeningTag,
+	splitByPseudoColorLangTags,
+	unescapePseudoLang,
+} from '../lang/pseudoLang';
+import { getTerminalWidth } from './terminal';
+import {
+	graphemes,
+	graphemeWidth,
+	tabWidth,
+	visibleWidth,
+} from './visibleText';
+
+/**
+ * @fileoverview Layout operations on pseudo-language strings. Every
+ * operation measures visible cells and keeps the style tags balanced:
+ * a tag cut by a slice or a line break is closed at the cut and opened
+ * again after it. Tabs are replaced with spaces, see `tabWidth`.
+ */
+
+type StyledToken =
+	| { kind: 'open'; value: string }
+	| { kind: 'close'; value: string }
+	| { kind: 'text'; value: string; width: number };
+
+/**
+ * Splits a pseudo-language string into tags and unescaped graphemes.
+ */
+function tokenize(text: string): StyledToken[] {
+	const tokens: StyledToken[] = [];
+	for (const segment of splitByPseudoColorLangTags(text)) {
+		if (matchOpeningTag(segment) !== null) {
+			tokens.push({ kind: 'open', value: segment });
+		} else if (matchClosingTag(segment)) {
+			tokens.push({ kind: 'close', value: segment });
+		} else {
+			for (const grapheme of graphemes(unescapePseudoLang(segment))) {
+				tokens.push({
+					kind: 'text',
+					value: grapheme,
+					width: graphemeWidth(grapheme),
+				});
+			}
+		}
+	}
+	return tokens;
+}
+
+const closingTag = '[[/mtxt-style]]';
+
+/**
+ * Replaces tabs with spaces. Tags never hold tabs, so the markup is kept.
+ */
+function expandTabs(text: string): string {
+	return text.includes('\t')
+		? text.replaceAll('\t', ' '.repeat(tabWidth))
+		: text;
+}
+
+/**
+ * Splits a pseudo-language string into lines, closing the tags still open
+ * at the end of a line and opening them again on the next one.
+ *
+ * @param text - The pseudo-language string.
+ * @returns One balanced pseudo-language string per line.
+ */
+export function splitStyledLines(text: string): string[] {
+	const lines: string[] = [];
+	const stack: string[] = [];
+	let line = '';
+
+	for (const token of tokenize(expandTabs(text))) {
+		if (token.kind === 'open') {
+			stack.push(token.value);
+			line += token.value;
+		} else if (token.kind === 'close') {
+			if (stack.pop() !== undefined) line += token.value;
+		} else if (token.value === '\n') {
+			lines.push(line + closingTag.repeat(stack.length));
+			line = stack.join('');
+		} else {
+			line += escapePseudoLang(token.value);
+		}
+	}
+	lines.push(line + closingTag.repeat(stack.length));
+
+	return lines;
+}
+
+/**
+ * Extracts the visible cells `[start, end)` of a single-line pseudo-language
+ * string, like `String.prototype.slice` on the visible text. A wide
+ * character crossing a bound is left out.
+ *
+ * @param text - The pseudo-language string.
+ * @param start - The first cell to keep.
+ * @param end - The cell to stop before. Defaults to the end of the string.
+ * @returns The balanced pseudo-language slice.
+ */
+export function sliceStyled(
+	text: string,
+	start: number,
+	end: number = Infinity,
+): string {
+	return sliceRanges(tokenize(expandTabs(text)), [[start, end]])[0];
+}
+
+/**
+ * Extracts several visible cell ranges of a tokenized single line in one
+ * pass. The ranges must be sorted and must not overlap.
+ */
+function sliceRanges(
+	tokens: StyledToken[],
+	ranges: [number, number][],
+): string[] {
+	const slices: string[] = [];
+	const stack: string[] = [];
+	let out = '';
+	let position = 0;
+	let started = false;
+
+	const finish = () => {
+		slices.push(started ? out + closingTag.repeat(stack.length) : '');
+		out = '';
+		started = false;
+	};
+
+	for (const token of tokens) {
+		if (slices.length === ranges.length) break;
+		if (token.kind === 'open') {
+			stack.push(token.value);
+			if (started) out += token.value;
+		} else if (token.kind === 'close') {
+			if (stack.pop() !== undefined && started) out += token.value;
+		} else {
+			// Close the ranges this character does not fit in. A zero-width
+			// character at a cut goes to the right, so no slice repeats it.
+			while (
+				slices.length < ranges.length &&
+				(position >= ranges[slices.length][1] ||
+					position + token.width > ranges[slices.length][1])
+			) {
+				finish();
+			}
+			if (slices.length === ranges.length) break;
+
+			if (position >= ranges[slices.length][0]) {
+				if (!started) {
+					// Open the tags entered before the slice started
+					out += stack.join('');
+					started = true;
+				}
+				out += escapePseudoLang(token.value);
+			}
+			position += token.width;
+		}
+	}
+	while (slices.length < ranges.length) finish();
+
+	return slices;
+}
+
+/**
+ * Shortens a pseudo-language string to a visible width, ending it with an
+ * ellipsis when it is cut. Multi-line strings are shortened line by line.
+ *
+ * @param text - The pseudo-language string.
+ * @param width - The maximum visible width.
+ * @param ellipsis - The marker appended to cut text. Defaults to "…".
+ * @returns The text, unchanged when it already fits.
+ *
+ * @example
+ * ```typescript
+ * truncateStyled(cols.red('abcdef'), 4); // red "abc" followed by "…"
+ * ```
+ */
+export function truncateStyled(
+	text: string,
+	width: number,
+	ellipsis: string = '…',
+): string {
+	return mapLines(text, (line) => {
+		if (visibleWidth(line) <= width) return line;
+		const room = width - visibleWidth(ellipsis);
+		if (room <= 0) return sliceStyled(ellipsis, 0, width);
+		return sliceStyled(line, 0, room) + ellipsis;
+	});
+}
+
+/**
+ * Wraps a pseudo-language string to a visible width, breaking lines
+ * between words, and inside words longer than the width. Each wrapped line
+ * opens again the styles it was inside.
+ *
+ * @param text - The pseudo-language string, possibly multi-line.
+ * @param width - The maximum visible width of a line. Defaults to the terminal width.
+ * @returns The wrapped text.
+ *
+ * @example
+ * ```typescript
+ * wrapStyled(cols.blue('lorem ipsum dolor'), 11);
+ * // "[mtxt-style[[blue]]]lorem ipsum[[/mtxt-style]]\n[mtxt-style[[blue]]]dolor[[/mtxt-style]]"
+ * ```
+ */
+export function wrapStyled(
+	text: string,
+	width: number = getTerminalWidth(),
+): string {
+	return wrapLines(text, width).join('\n');
+}
+
+/**
+ * Same as `wrapStyled`, returning the wrapped lines.
+ *
+ * @internal
+ */
+export function wrapLines(text: string, width: number): string[] {
+	return splitStyledLines(text).flatMap((line) => {
+		const tokens = tokenize(line);
+		return sliceRanges(tokens, wrapRanges(tokens, Math.max(1, width)));
+	});
+}
+
+/**
+ * Computes the cell ranges of the wrapped lines of a tokenized line.
+ */
+function wrapRanges(tokens: StyledToken[], width: number): [number, number][] {
+	const chars = tokens.filter((t) => t.kind === 'text') as {
+		value: string;
+		width: number;
+	}[];
+	const cells = [0];
+	for (const char of chars) cells.push(cells[cells.length - 1] + char.width);
+
+	const ranges: [number, number][] = [];
+	const isSpace = (i: number) => chars[i].value === ' ';
+	let i = 0;
+
+	if (chars.length === 0) return [[0, 0]];
+
+	while (i < chars.length) {
+		let j = i;
+		let lastSpace = -1;
+		while (j < chars.length && cells[j + 1] - cells[i] <= width) {
+			if (isSpace(j)) lastSpace = j;
+			j++;
+		}
+
+		let end: number;
+		if (j === chars.length || isSpace(j)) {
+			end = j;
+		} else if (lastSpace > i) {
+			end = lastSpace;
+		} else {
+			// A word longer than the line is broken where it overflows
+			end = Math.max(j, i + 1);
+		}
+
+		let trimmed = end;
+		while (trimmed > i && isSpace(trimmed - 1)) trimmed--;
+		ranges.push([cells[i], cells[trimmed]]);
+
+		i = end;
+		while (i < chars.length && isSpace(i)) i++;
+	}
+
+	return ranges;
+}
+
+/**
+ * Pads a pseudo-language string with spaces up to a visible width.
+ * Multi-line strings are padded line by line, lines wider than the width
+ * are left unchanged.
+ *
+ * @param text - The pseudo-language string.
+ * @param width - The visible width to reach.
+ * @param align - Where the text sits in the padded space. Defaults to "left".
+ * @returns The padded text.
+ */
+export function padStyled(
+	text: string,
+	width: number,
+	align: 'left' | 'center' | 'right' = 'left',
+): string {
+	return mapLines(text, (line) => {
+		const remaining = Math.max(0, width - visibleWidth(line));
+		if (align === 'right') return ' '.repeat(remaining) + line;
+		if (align === 'center') {
+			const left = Math.floor(remaining / 2);
+			return ' '.repeat(left) + line + ' '.repeat(remaining - left);
+		}
+		return line + ' '.repeat(remaining);
+	});
+}
+
+/**
+ * Centers a pseudo-language string in a visible width, the terminal width
+ * by default.
+ *
+ * @param text - The pseudo-language string.
+ * @param width - The visible width to center in. Defaults to the terminal width.
+ * @returns The centered text.
+ */
+export function centerStyled(
+	text: string,
+	width: number = getTerminalWidth(),
+): string {
+	return padStyled(text, width, 'center');
+}
+
+function mapLines(text: string, fn: (line: string) => string): string {
+	if (!text.includes('\n')) return fn(expandTabs(text));
+	return splitStyledLines(text).map(fn).join('\n');
+}
@@ -0,0 +1,335 @@
+import { ColorFn } from '../cols/colorPack';
+import { ChalkStyleKeys } from '../cols/colorPolify';
+import { writePseudoColorLang } from '../lang/pseudoLang';
+import {
+	padStyled,
+	splitStyledLines,
+	truncateStyled,
+	wrapLines,
+} from './styledText';
+import { visibleWidth } from './visibleText';
+
+/**
+ * The characters drawing a table border. Empty strings leave a part out.
+ */
+export interface TableBorder {
+	top: string;
+	topLeft: string;
+	topJoin: string;
+	topRight: string;
+	bottom: string;
+	bottomLeft: string;
+	bottomJoin: string;
+	bottomRight: string;
+	left: string;
+	join: string;
+	right: string;
+	/** The line between the header and the body. */
+	separator: string;
+	separatorLeft: string;
+	separatorJoin: string;
+	separatorRight: string;
+}
+
+export const tableBorders = {
+	ascii: {
+		top: '-',
+		topLeft: '+',
+		topJoin: '+',
+		topRight: '+',
+		bottom: '-',
+		bottomLeft: '+',
+		bottomJoin: '+',
+		bottomRight: '+',
+		left: '|',
+		join: '|',
+		right: '|',
+		separator: '-',
+		separatorLeft: '+',
+		separatorJoin: '+',
+		separatorRight: '+',
+	},
+	single: {
+		top: '─',
+		topLeft: '┌',
+		topJoin: '┬',
+		topRight: '┐',
+		bottom: '─',
+		bottomLeft: '└',
+		bottomJoin: '┴',
+		bottomRight: '┘',
+		left: '│',
+		join: '│',
+		right: '│',
+		separator: '─',
+		separatorLeft: '├',
+		separatorJoin: '┼',
+		separatorRight: '┤',
+	},
+	double: {
+		top: '═',
+		topLeft: '╔',
+		topJoin: '╦',
+		topRight: '╗',
+		bottom: '═',
+		bottomLeft: '╚',
+		bottomJoin: '╩',
+		bottomRight: '╝',
+		left: '║',
+		join: '║',
+		right: '║',
+		separator: '═',
+		separatorLeft: '╠',
+		separatorJoin: '╬',
+		separatorRight: '╣',
+	},
+	rounded: {
+		top: '─',
+		topLeft: '╭',
+		topJoin: '┬',
+		topRight: '╮',
+		bottom: '─',
+		bottomLeft: '╰',
+		bottomJoin: '┴',
+		bottomRight: '╯',
+		left: '│',
+		join: '│',
+		right: '│',
+		separator: '─',
+		separatorLeft: '├',
+		separatorJoin: '┼',
+		separatorRight: '┤',
+	},
+	none: {
+		top: '',
+		topLeft: '',
+		topJoin: '',
+		topRight: '',
+		bottom: '',
+		bottomLeft: '',
+		bottomJoin: '',
+		bottomRight: '',
+		left: '',
+		join: '',
+		right: '',
+		separator: '',
+		separatorLeft: '',
+		separatorJoin: '',
+		separatorRight: '',
+	},
+} satisfies Record<string, TableBorder>;
+
+export type TableBorderPreset = keyof typeof tableBorders;
+
+export type TableAlign = 'left' | 'center' | 'right';
+
+/**
+ * How a cell wider than its column is fitted:
+ * - `"wrap"`: broken into several lines.
+ * - `"ellipsis"`: cut and ended with "…".
+ */
+export type TableOverflow = 'wrap' | 'ellipsis';
+
+export interface TableColumn {
+	/** The property read from object rows. */
+	key?: string;
+	/** The header text. Defaults to the key for object rows. */
+	header?: string;
+	align?: TableAlign;
+	maxWidth?: number;
+	overflow?: TableOverflow;
+}
+
+export type TableData = unknown[][] | Record<string, unknown>[];
+
+export interface TableParam {
+	/**
+	 * The columns, as column options or as a plain string: the key of object
+	 * rows, or the header of array rows. Defaults to every key of object rows.
+	 */
+	columns?: (TableColumn | string)[];
+	border?: TableBorderPreset | TableBorder;
+	borderColor?: ChalkStyleKeys | ColorFn;
+	headerStyle?: ChalkStyleKeys | ColorFn;
+	align?: TableAlign;
+	maxWidth?: number;
+	overflow?: TableOverflow;
+	padding?: number;
+}
+
+/**
+ * Generates a table with columns aligned on the visible width of the cells,
+ * so cells holding `cols`, `hex` or `code` output line up.
+ *
+ * @param data - The rows, as arrays of cells or as objects.
+ * @param param - Configuration options for the table.
+ * @param param.columns - The columns to show and their options, see `TableColumn`.
+ * @param param.border - A border preset ("ascii", "single", "double", "rounded", "none") or custom border characters. Defaults to "single".
+ * @param param.borderColor - The color of the border. Can be a string or a function that applies color. Defaults to "gray".
+ * @param param.headerStyle - The style of the header cells. Can be a string or a function that applies color. Defaults to "bold".
+ * @param param.align - The default alignment of the cells. Defaults to "left".
+ * @param param.maxWidth - The default maximum width of a column. Unbounded by default.
+ * @param param.overflow - The default handling of cells wider than their column. Defaults to "wrap".
+ * @param param.padding - The number of spaces on each side of a cell. Defaults to 1.
+ *
+ * @returns A string representing the formatted table.
+ *
+ * @example
+ * ```typescript
+ * table(
+ *   [
+ *     { name: 'api', status: cols.green('up') },
+ *     { name: 'worker', status: cols.red('down') },
+ *   ],
+ *   { border: 'rounded', columns: ['name', { key: 'status', align: 'center' }] },
+ * );
+ * ```
+ */
+export function table(data: TableData, param: TableParam = {}): string {
+	const border =
+		typeof param.border === 'object'
+			? param.border
+			: tableBorders[param.border || 'single'];
+	const padding = ' '.repeat(param.padding ?? 1);
+	const columns = resolveColumns(data, param);
+	const hasHeader = columns.some((column) => column.header !== undefined);
+
+	const toCells = (cells: unknown[]) =>
+		columns.map((_column, i) => {
+			const lines = splitStyledLines(cellText(cells[i]));
+			const width = Math.max(...lines.map(visibleWidth));
+			return { lines, width };
+		});
+	const header = toCells(columns.map((column) => column.header ?? ''));
+	const body = data.map((row) =>
+		toCells(
+			Array.isArray(row)
+				? row
+				: columns.map((column) => (column.key ? row[column.key] : '')),
+		),
+	);
+
+	const widths = columns.map((column, i) => {
+		const natural = Math.max(
+			hasHeader ? header[i].width : 0,
+			...body.map((cells) => cells[i].width),
+		);
+		return Math.max(1, Math.min(natural, column.maxWidth ?? Infinity));
+	});
+
+	const color = (text: string) => {
+		if (text === '') return '';
+		return typeof param.borderColor === 'function'
+			? param.borderColor(text)
+			: writePseudoColorLang([param.borderColor || 'gray'], text);
+	};
+	const headerStyle = (text: string) =>
+		typeof param.headerStyle === 'function'
+			? param.headerStyle(text)
+			: writePseudoColorLang([param.headerStyle || 'bold'], text);
+
+	const rule = (fill: string, left: string, join: string, right: string) => {
+		if (fill === '') return null;
+		const segments = widths.map((w) => fill.repeat(w + padding.length * 2));
+		return color(left + segments.join(join) + right);
+	};
+
+	const renderRow = (
+		cells: { lines: string[] }[],
+		style?: (text: string) => string,
+	) => {
+		const fitted = cells.map((cell, i) => {
+			const column = columns[i];
+			return cell.lines.flatMap((line) =>
+				column.overflow === 'ellipsis'
+					? [truncateStyled(line, widths[i])]
+					: wrapLines(line, widths[i]),
+			);
+		});
+		const height = Math.max(...fitted.map((lines) => lines.length));
+
+		const lines: string[] = [];
+		for (let l = 0; l < height; l++) {
+			const parts = fitted.map((cellLines, i) => {
+				const line = cellLines[l] ?? '';
+				const styled = style && line !== '' ? style(line) : line;
+				return (
+					padding + padStyled(styled, widths[i], columns[i].align) + padding
+				);
+			});
+			lines.push(
+				color(border.left) +
+					parts.join(color(border.join)) +
+					color(border.right),
+			);
+		}
+		return lines;
+	};
+
+	const lines = [
+		rule(border.top, border.topLeft, border.topJoin, border.topRight),
+		...(hasHeader
+			? [
+					...renderRow(header, headerStyle),
+					rule(
+						border.separator,
+						border.separatorLeft,
+						border.separatorJoin,
+						border.separatorRight,
+					),
+				]
+			: []),
+		...body.flatMap((cells) => renderRow(cells)),
+		rule(
+			border.bottom,
+			border.bottomLeft,
+			border.bottomJoin,
+			border.bottomRight,
+		),
+	];
+
+	return lines.filter((line) => line !== null).join('\n');
+}
+
+type ResolvedColumn = Required<Pick<TableColumn, 'align' | 'overflow'>> &
+	Omit<TableColumn, 'align' | 'overflow'>;
+
+/**
+ * Resolves the columns of a table, applying the table-wide defaults.
+ */
+function resolveColumns(data: TableData, param: TableParam): ResolvedColumn[] {
+	const objectRows = data.length > 0 && !Array.isArray(data[0]);
+	let columns: TableColumn[];
+
+	if (param.columns) {
+		columns = param.columns.map((column) =>
+			typeof column === 'string'
+				? objectRows
+					? { key: column }
+					: { header: column }
+				: column,
+		);
+	} else if (objectRows) {
+		const keys = new Set<string>();
+		for (const row of data as Record<string, unknown>[]) {
+			Object.keys(row).forEach((key) => keys.add(key));
+		}
+		columns = [...keys].map((key) => ({ key }));
+	} else {
+		const count = Math.max(0, ...(data as unknown[][]).map((r) => r.length));
+		columns = Array.from({ length: count }, () => ({}));
+	}
+
+	return columns.map((column) => ({
+		...column,
+		header: column.header ?? (objectRows ? column.key : undefined),
+		align: column.align ?? param.align ?? 'left',
+		maxWidth: column.maxWidth ?? param.maxWidth,
+		overflow: column.overflow ?? param.overflow ?? 'wrap',
+	}));
+}
+
+function cellText(value: unknown): string {
+	if (value === undefined || value === null) return '';
+	return String(value);
+}
@@ -0,0 +1,127 @@
+import { ColorFn } from '../cols/colorPack';
+import { ChalkStyleKeys } from '../cols/colorPolify';
+import { writePseudoColorLang } from '../lang/pseudoLang';
+import { splitStyledLines } from './styledText';
+
+export interface TreeNode {
+	label: string | number;
+	children?: TreeNode[];
+	/** The style of the label. Can be a string or a function that applies color. */
+	style?: ChalkStyleKeys | ColorFn;
+	/** Hides the children of the node, showing the collapsed marker instead. */
+	collapsed?: boolean;
+}
+
+/**
+ * The guides drawn in front of the nodes, all of the same visible width.
+ */
+export interface TreeGuides {
+	/** In front of a node followed by siblings. */
+	branch: string;
+	/** In front of the last node of its siblings. */
+	last: string;
+	/** Under a node followed by siblings. */
+	vertical: string;
+	/** Under the last node of its siblings. */
+	space: string;
+}
+
+export const treeGuides = {
+	unicode: { branch: '├── ', last: '└── ', vertical: '│   ', space: '    ' },
+	ascii: { branch: '|-- ', last: '`-- ', vertical: '|   ', space: '    ' },
+} satisfies Record<string, TreeGuides>;
+
+export interface TreeParam {
+	guides?: keyof typeof treeGuides | TreeGuides;
+	guideColor?: ChalkStyleKeys | ColorFn;
+	maxDepth?: number;
+	collapsedMarker?: string;
+}
+
+/**
+ * Generates a tree, one node per line, with guides linking the nodes to
+ * their parent. Multi-line labels are kept under their guide.
+ *
+ * @param root - The root node, or a list of root nodes.
+ * @param param - Configuration options for the tree.
+ * @param param.guides - The guides, "unicode" (default), "ascii" or custom guide strings.
+ * @param param.guideColor - The color of the guides. Can be a string or a function that applies color. Defaults to "gray".
+ * @param param.maxDepth - The deepest level shown, the roots being level 0. Deeper nodes are collapsed. Unbounded by default.
+ * @param param.collapsedMarker - Shown after the label of a node whose children are hidden. Defaults to "…".
+ *
+ * @returns A string representing the tree.
+ *
+ * @example
+ * ```typescript
+ * tree({
+ *   label: 'src',
+ *   style: 'blue',
+ *   children: [
+ *     { label: 'main.ts' },
+ *     { label: 'lib', style: cols.blue.bold, collapsed: true, children: [...] },
+ *   ],
+ * });
+ * ```
+ */
+export function tree(
+	root: TreeNode | TreeNode[],
+	param: TreeParam = {},
+): string {
+	const guides =
+		typeof param.guides === 'object'
+			? param.guides
+			: treeGuides[param.guides || 'unicode'];
+	const maxDepth = param.maxDepth ?? Infinity;
+	const marker = param.collapsedMarker ?? '…';
+
+	const color = (text: string) =>
+		typeof param.guideColor === 'function'
+			? param.guideColor(text)
+			: writePseudoColorLang([param.guideColor || 'gray'], text);
+
+	const lines: string[] = [];
+
+	const visit = (
+		node: TreeNode,
+		depth: number,
+		prefix: string,
+		guide: string,
+		under: string,
+	) => {
+		const children = node.children ?? [];
+		const collapsed =
+			children.length > 0 && (node.collapsed === true || depth >= maxDepth);
+
+		let label = String(node.label);
+		if (node.style) {
+			label =
+				typeof node.style === 'function'
+					? node.style(label)
+					: writePseudoColorLang([node.style], label);
+		}
+		if (collapsed) label += ' ' + color(marker);
+
+		// Continuation lines of a label are aligned with its first line
+		splitStyledLines(label).forEach((line, i) => {
+			const lead = prefix + (i === 0 ? guide : under);
+			lines.push((lead ? color(lead) : '') + line);
+		});
+
+		if (collapsed) return;
+		children.forEach((child, i) => {
+			const isLast = i === children.length - 1;
+			visit(
+				child,
+				depth + 1,
+				prefix + under,
+				isLast ? guides.last : guides.branch,
+				isLast ? guides.space : guides.vertical,
+			);
+		});
+	};
+
+	const roots = Array.isArray(root) ? root : [root];
+	roots.forEach((node) => visit(node, 0, '', '', ''));
+
+	return lines.join('\n');
+}
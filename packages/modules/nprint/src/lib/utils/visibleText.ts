@@ -0,0 +1,249 @@
+import {
+	matchClosingTag,
+	matchOpeningTag,
+	splitByPseudoColorLangTags,
+	unescapePseudoLang,
+} from '../lang/pseudoLang';
+
+/**
+ * Matches ANSI escape sequences: CSI sequences (colors, cursor movement)
+ * and OSC sequences (hyperlinks, window titles).
+ */
+const ansiRegex =
+	/\u001b\[[0-9;?]*[ -\/]*[@-~]|\u001b\][^\u0007\u001b]*(?:\u0007|\u001b\\)/g;
+
+/**
+ * Code point ranges rendered with two terminal cells: the East Asian Width
+ * "W" and "F" ranges, which hold the emoji with default emoji presentation.
+ */
+const wideRanges: [number, number][] = [
+	[0x1100, 0x115f],
+	[0x231a, 0x231b],
+	[0x2329, 0x232a],
+	[0x23e9, 0x23ec],
+	[0x23f0, 0x23f0],
+	[0x23f3, 0x23f3],
+	[0x25fd, 0x25fe],
+	[0x2614, 0x2615],
+	[0x2648, 0x2653],
+	[0x267f, 0x267f],
+	[0x2693, 0x2693],
+	[0x26a1, 0x26a1],
+	[0x26aa, 0x26ab],
+	[0x26bd, 0x26be],
+	[0x26c4, 0x26c5],
+	[0x26ce, 0x26ce],
+	[0x26d4, 0x26d4],
+	[0x26ea, 0x26ea],
+	[0x26f2, 0x26f3],
+	[0x26f5, 0x26f5],
+	[0x26fa, 0x26fa],
+	[0x26fd, 0x26fd],
+	[0x2705, 0x2705],
+	[0x270a, 0x270b],
+	[0x2728, 0x2728],
+	[0x274c, 0x274c],
+	[0x274e, 0x274e],
+	[0x2753, 0x2755],
+	[0x2757, 0x2757],
+	[0x2795, 0x2797],
+	[0x27b0, 0x27b0],
+	[0x27bf, 0x27bf],
+	[0x2b1b, 0x2b1c],
+	[0x2b50, 0x2b50],
+	[0x2b55, 0x2b55],
+	[0x2e80, 0x303e],
+	[0x3041, 0x33ff],
+	[0x3400, 0x4dbf],
+	[0x4e00, 0x9fff],
+	[0xa000, 0xa4cf],
+	[0xa960, 0xa97f],
+	[0xac00, 0xd7a3],
+	[0xf900, 0xfaff],
+	[0xfe10, 0xfe19],
+	[0xfe30, 0xfe6f],
+	[0xff00, 0xff60],
+	[0xffe0, 0xffe6],
+	[0x16fe0, 0x16fe4],
+	[0x17000, 0x18aff],
+	[0x1b000, 0x1b2ff],
+	[0x1f004, 0x1f004],
+	[0x1f0cf, 0x1f0cf],
+	[0x1f18e, 0x1f18e],
+	[0x1f191, 0x1f19a],
+	[0x1f200, 0x1f251],
+	// Only the emoji of these blocks are wide, the other symbols are narrow
+	// unless followed by VS16, e.g. U+1F321 🌡 or U+1F336 🌶
+	[0x1f300, 0x1f320],
+	[0x1f32d, 0x1f335],
+	[0x1f337, 0x1f37c],
+	[0x1f37e, 0x1f393],
+	[0x1f3a0, 0x1f3ca],
+	[0x1f3cf, 0x1f3d3],
+	[0x1f3e0, 0x1f3f0],
+	[0x1f3f4, 0x1f3f4],
+	[0x1f3f8, 0x1f43e],
+	[0x1f440, 0x1f440],
+	[0x1f442, 0x1f4fc],
+	[0x1f4ff, 0x1f53d],
+	[0x1f54b, 0x1f54e],
+	[0x1f550, 0x1f567],
+	[0x1f57a, 0x1f57a],
+	[0x1f595, 0x1f596],
+	[0x1f5a4, 0x1f5a4],
+	[0x1f5fb, 0x1f64f],
+	[0x1f680, 0x1f6c5],
+	[0x1f6cc, 0x1f6cc],
+	[0x1f6d0, 0x1f6d2],
+	[0x1f6d5, 0x1f6d7],
+	[0x1f6dc, 0x1f6df],
+	[0x1f6eb, 0x1f6ec],
+	[0x1f6f4, 0x1f6fc],
+	[0x1f7e0, 0x1f7eb],
+	[0x1f90c, 0x1f93a],
+	[0x1f93c, 0x1f945],
+	[0x1f947, 0x1f9ff],
+	[0x1fa70, 0x1faff],
+	[0x20000, 0x3fffd],
+];
+
+/**
+ * The number of cells a tab counts for. The layout operations of
+ * `styledText` replace tabs with as many spaces, so that the output is as
+ * wide as measured whatever the tab stops of the terminal.
+ *
+ * @internal
+ */
+export const tabWidth = 4;
+
+let segmenter: Intl.Segmenter | null | undefined;
+
+/**
+ * Removes ANSI escape sequences from a string.
+ *
+ * @param text - A string that may contain rendered terminal output.
+ * @returns The text without any ANSI escape sequence.
+ */
+export function stripAnsi(text: string): string {
+	return text.replace(ansiRegex, '');
+}
+
+/**
+ * Removes the pseudo-language tags from a string, keeping only the text
+ * that would be visible once rendered.
+ *
+ * @param text - A string produced by `cols`, `hex`, `code`, `write`...
+ * @returns The text without any `[mtxt-style[[…]]]` / `[[/mtxt-style]]` tag.
+ */
+export function stripPseudoLang(text: string): string {
+	return splitByPseudoColorLangTags(text)
+		.filter((segment) => !matchOpeningTag(segment) && !matchClosingTag(segment))
+		.map(unescapePseudoLang)
+		.join('');
+}
+
+/**
+ * Removes every styling artifact from a string: pseudo-language tags
+ * as well as ANSI escape sequences.
+ *
+ * @param text - A pseudo-language string, rendered terminal output, or a mix of both.
+ * @returns The plain text.
+ *
+ * @example
+ * ```typescript
+ * stripStyles(cols.red('error')); // "error"
+ * stripStyles('\u001b[31merror\u001b[39m'); // "error"
+ * ```
+ */
+export function stripStyles(text: string): string {
+	return stripAnsi(stripPseudoLang(text));
+}
+
+/**
+ * Computes the number of terminal cells a string occupies once rendered.
+ *
+ * Styling (pseudo-language tags, ANSI sequences) is ignored, wide CJK
+ * characters and emoji count as two cells, tabs as four, combining marks,
+ * zero-width joiners and other control characters count as zero.
+ * The string is measured as a single line.
+ *
+ * @param text - The string to measure.
+ * @returns The visible width in terminal cells.
+ *
+ * @example
+ * ```typescript
+ * visibleWidth(cols.bold('abc')); // 3
+ * visibleWidth('漢字'); // 4
+ * visibleWidth('é'); // 1
+ * ```
+ */
+export function visibleWidth(text: string): number {
+	const plain = stripStyles(text);
+	let width = 0;
+	for (const grapheme of graphemes(plain)) {
+		width += graphemeWidth(grapheme);
+	}
+	return width;
+}
+
+/**
+ * Splits a string into grapheme clusters, falling back to code points on
+ * runtimes without `Intl.Segmenter`.
+ *
+ * @internal
+ */
+export function graphemes(text: string): string[] {
+	if (segmenter === undefined) {
+		segmenter =
+			typeof Intl !== 'undefined' && 'Segmenter' in Intl
+				? new Intl.Segmenter(undefined, { granularity: 'grapheme' })
+				: null;
+	}
+	if (segmenter) {
+		return Array.from(segmenter.segment(text), (s) => s.segment);
+	}
+	return Array.from(text);
+}
+
+/**
+ * Computes the cell width of a single grapheme cluster.
+ *
+ * @internal
+ */
+export function graphemeWidth(grapheme: string): number {
+	const first = grapheme.codePointAt(0);
+	if (first === undefined) return 0;
+
+	// Emoji presentation selector or regional indicator pairs (flags)
+	if (grapheme.includes('\uFE0F')) return 2;
+	if (first >= 0x1f1e6 && first <= 0x1f1ff) return 2;
+
+	let width = 0;
+	for (const char of grapheme) {
+		width += codePointWidth(char);
+		// The rest of a cluster extends its base character
+		if (width > 0) break;
+	}
+	return width;
+}
+
+function codePointWidth(char: string): number {
+	const codePoint = char.codePointAt(0) as number;
+	if (char === '\t') return tabWidth;
+	if (/[\p{Cc}\p{Cf}\p{Mn}\p{Me}]/u.test(char)) return 0;
+	if (codePoint >= 0xfe00 && codePoint <= 0xfe0f) return 0;
+	return isWide(codePoint) ? 2 : 1;
+}
+
+function isWide(codePoint: number): boolean {
+	let low = 0;
+	let high = wideRanges.length - 1;
+	while (low <= high) {
+		const mid = (low + high) >> 1;
+		const [start, end] = wideRanges[mid];
+		if (codePoint < start) high = mid - 1;
+		else if (codePoint > end) low = mid + 1;
+		else return true;
+	}
+	return false;
+}
@@ -10,11 +10,33 @@ import {
 	WritingVar,
 } from './writeHelpers';
 import { horizontalRuleParam, hr } from '../utils/horizontalRule';
+import { table, TableData, TableParam } from '../utils/table';
+import { box, BoxParam, panel } from '../utils/box';
+import { wrapStyled } from '../utils/styledText';
+import { tree, TreeNode, TreeParam } from '../utils/tree';
+import { getTerminalWidth } from '../utils/terminal';
+import { diff, DiffParam } from '../utils/diff';
+import { markdown, MarkdownParam } from '../utils/markdown';
 
 type ExtendedWriteParams = Omit<WritingVar, 'configs'> & {
 	pretty: {
 		setCodeTheme(s: Theme): void;
+		/**
+		 * Wraps every line pushed from now on to a width, the terminal width
+		 * by default. `false` turns wrapping off.
+		 */
+		wrap(width?: number | false): void;
 		hr(param: horizontalRuleParam): void;
+		table(data: TableData, param?: TableParam): void;
+		box(content: string, param?: BoxParam): void;
+		panel(
+			title: string | number,
+			content: string,
+			param?: Omit<BoxParam, 'title'>,
+		): void;
+		tree(root: TreeNode | TreeNode[], param?: TreeParam): void;
+		diff(a: unknown, b: unknown, param?: DiffParam): void;
+		markdown(source: string, param?: MarkdownParam): void;
 	};
 	cols: typeof cols;
 	hex: typeof hex;
@@ -59,29 +81,8 @@ export function write<T extends GenericWriteFn<ExtendedWriteParams>>(
  * @returns The result of rendering with constraints, based on the configurations.
  */
 export function writeSync(fn: WriteFn<ExtendedWriteParams>) {
-	const { configs, pretty, push } = createWritingVar({
-		configs: { theme: undefined as Theme | undefined },
-	});
-
-	fn({
-		pretty: {
-			...pretty,
-			setCodeTheme(s) {
-				configs.theme = s;
-			},
-			hr(param) {
-				push(hr(param));
-			},
-		},
-		push,
-		cols,
-		hex,
-		bgHex,
-		code(param) {
-			return codeStr({ ...param, theme: param.theme || configs.theme });
-		},
-	});
-
+	const { configs, params } = createExtendedWritingVar();
+	fn(params);
 	return joinWithConstrain({ ...configs });
 }
 
@@ -103,28 +104,79 @@ export function writeSync(fn: WriteFn<ExtendedWriteParams>) {
  *          with the generated configurations.
  */
 export async function writeAsync(fn: AsyncWriteFn<ExtendedWriteParams>) {
+	const { configs, params } = createExtendedWritingVar();
+	await fn(params);
+	return joinWithConstrain({ ...configs });
+}
+
+/**
+ * Creates the writing environment shared by `writeSync` and `writeAsync`:
+ * the base writing variables extended with the pretty utilities, the color
+ * helpers and `code`, all bound to the same configurations.
+ */
+function createExtendedWritingVar() {
 	const { configs, pretty, push } = createWritingVar({
-		configs: { theme: undefined as Theme | undefined },
+		configs: {
+			theme: undefined as Theme | undefined,
+			wrap: false as number | false,
+		},
 	});
 
-	await fn({
+	// Wraps what was just pushed when `pretty.wrap` is on
+	const pushWrapped: WritingVar['push'] = (...str) => {
+		push(...str);
+		if (configs.wrap !== false) {
+			const last = configs.inputs.length - 1;
+			configs.inputs[last] = wrapStyled(configs.inputs[last], configs.wrap);
+		}
+	};
+
+	const params: ExtendedWriteParams = {
 		pretty: {
 			...pretty,
 			setCodeTheme(s) {
 				configs.theme = s;
 			},
+			wrap(width) {
+				configs.wrap = width === undefined ? getTerminalWidth() : width;
+			},
 			hr(param) {
-				push(hr(param));
+				pushWrapped(hr(param));
+			},
+			table(data, param) {
+				pushWrapped(table(data, param));
+			},
+			box(content, param) {
+				pushWrapped(box(content, param));
+			},
+			panel(title, content, param) {
+				pushWrapped(panel(title, content, param));
+			},
+			tree(root, param) {
+				pushWrapped(tree(root, param));
+			},
+			diff(a, b, param = {}) {
+				pushWrapped(
+					diff(a, b, { ...param, theme: param.theme || configs.theme }),
+				);
+			},
+			markdown(source, param = {}) {
+				pushWrapped(
+					markdown(source, {
+						...param,
+						theme: param.theme || configs.theme,
+					}),
+				);
 			},
 		},
-		push,
+		push: pushWrapped,
 		cols,
 		hex,
 		bgHex,
 		code(param) {
 			return codeStr({ ...param, theme: param.theme || configs.theme });
 		},
-	});
+	};
 
-	return joinWithConstrain({ ...configs });
+	return { configs, params };
 }
@@ -1,3 +1,15 @@
+import { escapePseudoLang } from '../lang/pseudoLang';
+
+/**
+ * Options accepted as the last argument of `push`:
+ * - `join`: the string used to join the pushed strings (default "").
+ * - `raw`: escape the pushed strings so they are never interpreted as style tags.
+ */
+export interface PushOptions {
+	join?: string;
+	raw?: boolean;
+}
+
 export interface WritingVar {
 	configs: {
 		join: string;
@@ -6,7 +18,7 @@ export interface WritingVar {
 	pretty: {
 		joinWith(char: string): void;
 	};
-	push: (...str: [...string[], string | { join?: string }]) => void;
+	push: (...str: [...string[], string | PushOptions]) => void;
 }
 
 export type WriteFn<P> = (param: P) => void;
@@ -61,14 +73,19 @@ export function createWritingVar<
 		inputs: [] as string[],
 	};
 
-	const push = (...str: [...string[], string | { join?: string }]): void => {
+	const push = (...str: [...string[], string | PushOptions]): void => {
 		let joinString = '';
+		let raw = false;
 		const last = str.at(-1);
 		if (typeof last === 'object' && !(last instanceof String)) {
 			joinString = last.join ?? '';
+			raw = last.raw ?? false;
 			str.pop();
 		}
-		configs.inputs.push(str.join(joinString));
+		const parts = str as string[];
+		configs.inputs.push(
+			(raw ? parts.map(escapePseudoLang) : parts).join(joinString),
+		);
 	};
 
 	const pretty = {
@@ -1,13 +1,75 @@
 import { write, writeAsync, writeSync } from './lib/write/writeExtends';
-import { bgHex, cols, hex } from './lib/cols/colorPack';
+import {
+	ansi256,
+	bgAnsi256,
+	bgHex,
+	bgHsl,
+	bgNamed,
+	bgRgb,
+	cols,
+	gradient,
+	gradientPresets,
+	hex,
+	hsl,
+	named,
+	rgb,
+	t,
+} from './lib/cols/colorPack';
+import { blend, darken, lighten, mix } from './lib/cols/colorMath';
+import {
+	currentPalette,
+	registerPalette,
+	registerStyle,
+	usePalette,
+} from './lib/cols/styleAliases';
 import { detectRuntime } from './lib/utils/getRuntime';
 import { getTerminalWidth } from './lib/utils/terminal';
-import { code, registerLang } from './lib/code/code';
+import { detectColorLevel } from './lib/utils/colorSupport';
+import {
+	code,
+	detectLang,
+	listLangs,
+	loadLang,
+	registerLang,
+} from './lib/code/code';
+import { registerTheme } from './lib/code/regitery';
+import {
+	themeFromCSS,
+	themeFromTextMate,
+	validateTheme,
+} from './lib/code/themes';
 import { hr } from './lib/utils/horizontalRule';
+import { table } from './lib/utils/table';
+import { box, panel } from './lib/utils/box';
+import { tree } from './lib/utils/tree';
+import { inspect } from './lib/utils/inspect';
+import { diff } from './lib/utils/diff';
+import { markdown } from './lib/utils/markdown';
+import { progressBar, spinner, taskList } from './lib/live/progress';
+import { createLogger } from './lib/log/logger';
+import {
+	consoleTransport,
+	jsonTransport,
+	streamTransport,
+} from './lib/log/transports';
+import { stripStyles, visibleWidth } from './lib/utils/visibleText';
+import {
+	centerStyled,
+	padStyled,
+	sliceStyled,
+	truncateStyled,
+	wrapStyled,
+} from './lib/utils/styledText';
+import { escapePseudoLang } from './lib/lang/pseudoLang';
+import {
+	pseudoLangToTree,
+	PseudoLangSyntaxError,
+} from './lib/lang/pseudoParser';
 import {
 	createRenderer,
 	render,
 	renderToBrowser,
+	renderToHTML,
 	renderToNodeLike,
 } from './lib/lang/render';
 import {
@@ -25,25 +87,97 @@ export {
 	writeCoreAsync,
 	writeCoreSync,
 	// colors
+	ansi256,
+	bgAnsi256,
 	bgHex,
+	bgHsl,
+	bgNamed,
+	bgRgb,
 	cols,
 	hex,
+	hsl,
+	named,
+	rgb,
+
+	// tagged templates
+	t,
+
+	// gradients
+	gradient,
+	gradientPresets,
+
+	// color math
+	blend,
+	darken,
+	lighten,
+	mix,
+
+	// named styles
+	currentPalette,
+	registerPalette,
+	registerStyle,
+	usePalette,
 
 	// runtime info
+	detectColorLevel,
 	detectRuntime,
 	getTerminalWidth,
 
+	// text measurement
+	stripStyles,
+	visibleWidth,
+
+	// text layout
+	centerStyled,
+	padStyled,
+	sliceStyled,
+	truncateStyled,
+	wrapStyled,
+
 	// code rendering
 	code,
+	detectLang,
+	listLangs,
+	loadLang,
 	registerLang,
+	registerTheme,
+	themeFromCSS,
+	themeFromTextMate,
+	validateTheme,
+
+	// inspection
+	diff,
+	inspect,
 
 	// layout
+	box,
 	hr,
+	markdown,
+	panel,
+	table,
+	tree,
+
+	// live output
+	progressBar,
+	spinner,
+	taskList,
+
+	// logging
+	consoleTransport,
+	createLogger,
+	jsonTransport,
+	streamTransport,
+
+	// pseudo-lang
+	escapePseudoLang,
+	pseudoLangToTree,
+	PseudoLangSyntaxError,
 
 	// renderers
 	createRenderer,
 	render,
 	renderToBrowser,
+	renderToHTML,
 	renderToNodeLike,
 };
 
@@ -56,26 +190,110 @@ export const nprint = {
 	writeCoreAsync,
 	writeCoreSync,
 	// colors
+	ansi256,
+	bgAnsi256,
 	bgHex,
+	bgHsl,
+	bgNamed,
+	bgRgb,
 	cols,
 	hex,
+	hsl,
+	named,
+	rgb,
+
+	// tagged templates
+	t,
+
+	// gradients
+	gradient,
+	gradientPresets,
+
+	// color math
+	blend,
+	darken,
+	lighten,
+	mix,
+
+	// named styles
+	currentPalette,
+	registerPalette,
+	registerStyle,
+	usePalette,
 
 	// runtime info
+	detectColorLevel,
 	detectRuntime,
 	getTerminalWidth,
 
+	// text measurement
+	stripStyles,
+	visibleWidth,
+
+	// text layout
+	centerStyled,
+	padStyled,
+	sliceStyled,
+	truncateStyled,
+	wrapStyled,
+
 	// code rendering
 	code,
+	detectLang,
+	listLangs,
+	loadLang,
 	registerLang,
+	registerTheme,
+	themeFromCSS,
+	themeFromTextMate,
+	validateTheme,
+
+	// inspection
+	diff,
+	inspect,
 
 	// layout
+	box,
 	hr,
+	markdown,
+	panel,
+	table,
+	tree,
+
+	// live output
+	progressBar,
+	spinner,
+	taskList,
+
+	// logging
+	consoleTransport,
+	createLogger,
+	jsonTransport,
+	streamTransport,
+
+	// pseudo-lang
+	escapePseudoLang,
+	pseudoLangToTree,
+	PseudoLangSyntaxError,
 
 	// renderers
 	createRenderer,
 	render,
 	renderToBrowser,
+	renderToHTML,
 	renderToNodeLike,
 };
 
+// The types needed to load languages and register code themes
+export type { LangLoader } from './lib/code/code';
+export type { CodeScheme } from './lib/code/types';
+export type { CodeThemes, Theme } from './lib/code/regitery';
+
+// The types needed to register named styles
+export type {
+	PaletteName,
+	StyleAlias,
+	StyleAliases,
+} from './lib/cols/styleAliases';
+
 export default nprint;
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import {
+	bgAnsi256,
+	bgHex,
+	bgHsl,
+	bgNamed,
+	bgRgb,
+	cols,
+} from '../src/lib/cols/colorPack';
+import { createRenderer } from '../src/lib/lang/render';
+import { stripAnsi } from '../src/lib/utils/visibleText';
+
+const render = (
+	input: string,
+	colorLevel: 16 | 256 | 'truecolor',
+	fill?: boolean | number,
+) => createRenderer({ mode: 'nodelike', colorLevel, fill })(input)[0];
+
+describe('terminal backgrounds', () => {
+	it('should render background colors in truecolor', () => {
+		const expected = '\u001b[48;2;255;0;0mx\u001b[49m';
+		expect(render(bgHex('#ff0000')('x'), 'truecolor')).toBe(expected);
+		expect(render(bgRgb(255, 0, 0)('x'), 'truecolor')).toBe(expected);
+		expect(render(bgHsl(0, 100, 50)('x'), 'truecolor')).toBe(expected);
+		expect(render(bgNamed('red')('x'), 'truecolor')).toBe(expected);
+		expect(render(bgAnsi256(196)('x'), 'truecolor')).toBe(expected);
+	});
+
+	it('should render background colors in 256 colors', () => {
+		expect(render(bgHex('#ff0000')('x'), 256)).toBe(
+			'\u001b[48;5;9mx\u001b[49m',
+		);
+		expect(render(bgAnsi256(17)('x'), 256)).toBe('\u001b[48;5;17mx\u001b[49m');
+	});
+
+	it('should render background colors in 16 colors', () => {
+		expect(render(bgHex('#ff0000')('x'), 16)).toBe('\u001b[101mx\u001b[49m');
+		expect(render(bgAnsi256(4)('x'), 16)).toBe('\u001b[44mx\u001b[49m');
+		expect(render(bgNamed('black')('x'), 16)).toBe('\u001b[40mx\u001b[49m');
+	});
+
+	it('should combine foreground and background', () => {
+		expect(render(cols.white.bgHex('#000080')('x'), 'truecolor')).toBe(
+			'\u001b[37m\u001b[48;2;0;0;128mx\u001b[49m\u001b[39m',
+		);
+	});
+});
+
+describe('full-line background fill', () => {
+	it('should pad background lines to the given width', () => {
+		const output = render(bgHex('#333')('ab\nc'), 'truecolor', 5);
+		expect(stripAnsi(output)).toBe('ab   \nc    ');
+	});
+
+	it('should account for styled and wide content', () => {
+		const output = render(cols.bgBlue(`${cols.bold('ok')} 界`), 'truecolor', 8);
+		expect(stripAnsi(output)).toBe('ok 界   ');
+	});
+
+	it('should count the text before the background on the same line', () => {
+		const output = render(
+			`> ${bgHex('#333')('ab\ncd')}\n${cols.bold('x')}${cols.bgRed('y')}`,
+			'truecolor',
+			6,
+		);
+		expect(stripAnsi(output)).toBe('> ab  \ncd    \nxy    ');
+	});
+
+	it('should leave nodes without a background untouched', () => {
+		expect(stripAnsi(render(cols.red('ab'), 'truecolor', 5))).toBe('ab');
+	});
+
+	it('should fill only the outermost background', () => {
+		const output = render(
+			bgHex('#333')(`a ${bgHex('#666')('b')} c`),
+			'truecolor',
+			6,
+		);
+		expect(stripAnsi(output)).toBe('a b c ');
+	});
+
+	it('should not fill without the option', () => {
+		expect(stripAnsi(render(bgHex('#333')('ab'), 'truecolor'))).toBe('ab');
+	});
+});
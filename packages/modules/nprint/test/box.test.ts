@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { cols } from '../src/lib/cols/colorPack';
+import { pseudoLangToTree } from '../src/lib/lang/pseudoParser';
+import { box, panel } from '../src/lib/utils/box';
+import { stripStyles, visibleWidth } from '../src/lib/utils/visibleText';
+import { writeSync } from '../src/lib/write/writeExtends';
+
+const plain = (output: string) => stripStyles(output).split('\n');
+
+describe('box', () => {
+	it('should frame multi-line content', () => {
+		expect(plain(box('a\nbcd'))).toEqual([
+			'┌─────┐',
+			'│ a   │',
+			'│ bcd │',
+			'└─────┘',
+		]);
+	});
+
+	it('should apply padding and margin', () => {
+		const output = box('a', {
+			border: 'ascii',
+			padding: { top: 1, left: 2, right: 2 },
+			margin: { top: 1, left: 1 },
+		});
+		expect(plain(output)).toEqual([
+			'',
+			' +-----+',
+			' |     |',
+			' |  a  |',
+			' +-----+',
+		]);
+		expect(plain(box('a', { padding: 0, border: 'ascii' }))).toEqual([
+			'+-+',
+			'|a|',
+			'+-+',
+		]);
+	});
+
+	it('should align the title in the top border', () => {
+		const content = 'abcdefgh';
+		const top = (titleAlign: 'left' | 'center' | 'right') =>
+			plain(box(content, { title: 'T', titleAlign }))[0];
+		expect(top('left')).toBe('┌ T ───────┐');
+		expect(top('center')).toBe('┌─── T ────┐');
+		expect(top('right')).toBe('┌─────── T ┐');
+	});
+
+	it('should widen the box to fit the title', () => {
+		expect(plain(panel('Summary', 'a', { border: 'rounded' }))).toEqual([
+			'╭ Summary ╮',
+			'│ a       │',
+			'╰─────────╯',
+		]);
+	});
+
+	it('should cut a title wider than a box of fixed width', () => {
+		expect(
+			plain(box('a', { title: cols.bold('A very long title'), width: 10 })),
+		).toEqual(['┌ A very…┐', '│ a      │', '└────────┘']);
+	});
+
+	it('should keep the right border aligned with styled content', () => {
+		const output = box(`${cols.red.bold('ok')} 漢\n${cols.green('longer')}`);
+		const widths = plain(output).map(visibleWidth);
+		expect(new Set(widths).size).toBe(1);
+	});
+
+	it('should nest', () => {
+		const inner = box(cols.blue('in'), { border: 'double' });
+		const output = box(inner, { title: 'outer' });
+		const lines = plain(output);
+		expect(lines).toEqual([
+			'┌ outer ─┐',
+			'│ ╔════╗ │',
+			'│ ║ in ║ │',
+			'│ ╚════╝ │',
+			'└────────┘',
+		]);
+		expect(pseudoLangToTree(output, { diagnostics: true }).diagnostics).toEqual(
+			[],
+		);
+	});
+
+	it('should wrap content to a fixed width', () => {
+		expect(plain(box('aaa bbb', { width: 7, border: 'ascii' }))).toEqual([
+			'+-----+',
+			'| aaa |',
+			'| bbb |',
+			'+-----+',
+		]);
+	});
+
+	it('should color the border and the title', () => {
+		const output = box('a', {
+			title: 'T',
+			borderColor: cols.cyan,
+			titleColor: 'bold',
+		});
+		expect(output).toContain('[mtxt-style[[bold]]] T [[/mtxt-style]]');
+		expect(output).toContain('[mtxt-style[[cyan]]]│[[/mtxt-style]]');
+	});
+
+	it('should be usable from the write context', () => {
+		const output = writeSync(({ pretty }) => {
+			pretty.panel('T', 'a', { border: 'ascii' });
+		});
+		expect(plain(output)).toEqual(['+ T +', '| a |', '+---+']);
+	});
+});
@@ -0,0 +1,252 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import javascript from 'highlight.js/lib/languages/javascript';
+import python from 'highlight.js/lib/languages/python';
+import {
+	code,
+	detectLang,
+	listLangs,
+	loadLang,
+	registerLang,
+} from '../src/lib/code/code';
+import { parseCode } from '../src/lib/code/parse';
+import { CodeScheme } from '../src/lib/code/types';
+import { bgHex, cols } from '../src/lib/cols/colorPack';
+import { pseudoLangToTree } from '../src/lib/lang/pseudoParser';
+import { stripStyles, visibleWidth } from '../src/lib/utils/visibleText';
+
+const source = 'const a = 1;\nconst b = 2;\nconst c = a + b;';
+
+describe('code', () => {
+	beforeAll(() => {
+		registerLang('js', javascript);
+	});
+
+	it('should leave plain highlighting untouched', () => {
+		const output = code({ lang: 'js', content: source });
+		expect(stripStyles(output)).toBe(source);
+		expect(output.split('\n')).toHaveLength(3);
+	});
+
+	it('should number the lines from an offset', () => {
+		const output = code({ lang: 'js', content: source, lineNumbers: 9 });
+		expect(stripStyles(output)).toBe(
+			[' 9 │ const a = 1;', '10 │ const b = 2;', '11 │ const c = a + b;'].join(
+				'\n',
+			),
+		);
+		expect(
+			stripStyles(code({ lang: 'js', content: 'x', lineNumbers: true })),
+		).toBe('1 │ x');
+	});
+
+	it('should highlight lines and ranges with a background', () => {
+		const highlight = bgHex('#222222');
+		const output = code({
+			lang: 'js',
+			content: 'a\nb\nc\nd',
+			highlight: [1, [3, 4]],
+			highlightColor: highlight,
+		});
+		const lines = output.split('\n');
+		expect(lines[0].startsWith('[mtxt-style[[bgHex#222222]]]')).toBe(true);
+		expect(lines[1]).toBe('b');
+		expect(lines[3]).toBe(highlight('d'));
+	});
+
+	it('should draw gutter markers', () => {
+		const output = code({
+			lang: 'js',
+			content: source,
+			lineNumbers: 1,
+			markers: { 2: 'error', 3: 'warn' },
+		});
+		const lines = output.split('\n');
+		expect(stripStyles(lines[0])).toBe('  1 │ const a = 1;');
+		expect(lines[1].startsWith(`${cols.red('✖')} ${cols.red('2')}`)).toBe(true);
+		expect(stripStyles(lines[2])).toBe('▲ 3 │ const c = a + b;');
+	});
+
+	it('should show a title above the code', () => {
+		const output = code({
+			lang: 'js',
+			content: 'x',
+			title: 'main.js',
+			lineNumbers: true,
+		});
+		expect(stripStyles(output)).toBe('main.js\n─────\n1 │ x');
+	});
+
+	it('should wrap or cut lines to a width', () => {
+		const wrapped = code({
+			lang: 'js',
+			content: 'const total = a + b;',
+			lineNumbers: true,
+			width: 15,
+		});
+		expect(stripStyles(wrapped)).toBe('1 │ const total\n  │ = a + b;');
+
+		const cut = code({
+			lang: 'js',
+			content: 'const total = a + b;',
+			width: 10,
+			overflow: 'ellipsis',
+		});
+		expect(stripStyles(cut)).toBe('const tot…');
+		expect(visibleWidth(cut)).toBe(10);
+	});
+
+	it('should produce valid pseudo-lang', () => {
+		const output = code({
+			lang: 'js',
+			content: source,
+			lineNumbers: true,
+			highlight: [[1, 3]],
+			markers: { 1: 'info' },
+			title: 'sum.js',
+			width: 12,
+		});
+		const { diagnostics } = pseudoLangToTree(output, { diagnostics: true });
+		expect(diagnostics).toEqual([]);
+	});
+
+	it('should show unknown languages as plain text', () => {
+		const output = code({ lang: 'klingon', content: 'qapla [x]' });
+		expect(output).toBe('qapla [mtxt-esc]x]');
+		expect(
+			stripStyles(code({ lang: 'klingon', content: 'x', lineNumbers: true })),
+		).toBe('1 │ x');
+	});
+
+	it('should detect the language among the registered ones', () => {
+		expect(listLangs()).toContain('js');
+		expect(detectLang('const add = (a, b) => a + b;')).toBe('js');
+		expect(detectLang('const a = 1;', [])).toBeUndefined();
+
+		const detected: (string | undefined)[] = [];
+		const output = code({
+			lang: 'auto',
+			content: 'const a = 1;',
+			onLanguage: (lang) => detected.push(lang),
+		});
+		expect(output).toBe(code({ lang: 'js', content: 'const a = 1;' }));
+		code({
+			lang: 'klingon',
+			content: 'x',
+			onLanguage: (lang) => detected.push(lang),
+		});
+		expect(detected).toEqual(['js', undefined]);
+	});
+
+	it('should load a grammar by name', async () => {
+		const loaded: string[] = [];
+		const loader = async (lang: string) => {
+			loaded.push(lang);
+			return { default: python };
+		};
+
+		expect(listLangs()).not.toContain('python');
+		await loadLang('python', loader);
+		await loadLang('python', loader);
+		expect(loaded).toEqual(['python']);
+		expect(listLangs()).toContain('python');
+		expect(code({ lang: 'python', content: 'def f(): pass' })).toContain(
+			'mtxt-style',
+		);
+
+		await loadLang('snake', async () => python);
+		expect(listLangs()).toContain('snake');
+
+		await expect(
+			loadLang('no-such-lang', () => Promise.reject(new Error('not found'))),
+		).rejects.toThrow('Unknown language "no-such-lang"');
+		await expect(loadLang('../core', loader)).rejects.toThrow(
+			'Invalid language name "../core"',
+		);
+	});
+
+	it('should import a grammar from highlight.js by its name', async () => {
+		expect(listLangs()).not.toContain('rust');
+		await loadLang('rust');
+		expect(listLangs()).toContain('rust');
+		expect(code({ lang: 'rust', content: 'fn main() {}' })).toContain(
+			'mtxt-style',
+		);
+
+		await expect(loadLang('no-such-lang')).rejects.toThrow(
+			'Unknown language "no-such-lang"',
+		);
+	});
+});
+
+describe('theme selectors', () => {
+	const red = cols.red;
+	const blue = cols.blue;
+	const green = cols.green;
+	const highlight = (content: string, styles: CodeScheme['styles']) =>
+		parseCode('js', content, { name: 'test', styles });
+
+	beforeAll(() => {
+		registerLang('js', javascript);
+	});
+
+	it('should match descendant and child combinators', () => {
+		// The substitution is a child of the template string
+		const content = '`${a}`';
+		const styled = `${red('`' + red.bold('${a}') + '`')}`;
+		expect(
+			highlight(content, {
+				'.hljs-string': [red],
+				'.hljs-string .hljs-subst': [red.bold],
+			}),
+		).toBe(styled);
+		expect(
+			highlight(content, {
+				'.hljs-string': [red],
+				'code.hljs > .hljs-string > .hljs-subst': [red.bold],
+			}),
+		).toBe(styled);
+		expect(highlight(content, { '.hljs > .hljs-subst': [red] })).toBe(
+			highlight(content, {}),
+		);
+		expect(highlight(content, { '.hljs-keyword .hljs-subst': [red] })).toBe(
+			highlight(content, {}),
+		);
+	});
+
+	it('should match the tokens inside the pre > code.hljs root', () => {
+		const keyword = `${red('let')} a`;
+		expect(highlight('let a', { '.hljs .hljs-keyword': [red] })).toBe(keyword);
+		expect(highlight('let a', { 'pre > code > span': [red] })).toBe(keyword);
+		expect(highlight('let a', { 'div .hljs-keyword': [red] })).toBe('let a');
+		expect(highlight('let a', { '.hljs, pre code.hljs': [red] })).toBe('let a');
+	});
+
+	it('should match every selector of a list', () => {
+		expect(
+			highlight('let a = 1', { '.hljs-keyword, .hljs-number': [red] }),
+		).toBe(`${red('let')} a = ${red('1')}`);
+	});
+
+	it('should let the most specific rule win', () => {
+		const styles = {
+			'.hljs-title.function_': [blue],
+			'.hljs-title': [red],
+		};
+		expect(highlight('f()', styles)).toBe(red(blue('f')) + '()');
+	});
+
+	it('should let the last rule win among equally specific ones', () => {
+		expect(
+			highlight('let a', {
+				'span.hljs-keyword': [blue],
+				'.hljs-keyword': [red],
+			}),
+		).toBe(`${red(blue('let'))} a`);
+		expect(
+			highlight('let a', {
+				'.hljs-keyword': [red],
+				'* .hljs-keyword': [green],
+			}),
+		).toBe(`${red(green('let'))} a`);
+	});
+});
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import {
+	ansi256,
+	bgAnsi256,
+	bgHsl,
+	bgNamed,
+	bgRgb,
+	cols,
+	hsl,
+	named,
+	rgb,
+} from '../src/lib/cols/colorPack';
+import { blend, darken, lighten, mix } from '../src/lib/cols/colorMath';
+import { parseColorStyle } from '../src/lib/cols/colorStyles';
+import { createRenderer, renderToBrowser } from '../src/lib/lang/render';
+import { pseudoLangToTree } from '../src/lib/lang/pseudoParser';
+
+describe('color formats', () => {
+	it('should produce color styles', () => {
+		expect(rgb(255, 136, 0)('x')).toBe(
+			'[mtxt-style[[rgb#255,136,0]]]x[[/mtxt-style]]',
+		);
+		expect(rgb('rgb(255, 136, 0)')('x')).toBe(rgb(255, 136, 0)('x'));
+		expect(bgRgb(1, 2, 3)('x')).toContain('[[bgRgb#1,2,3]]');
+		expect(hsl('hsl(210, 50%, 40%)')('x')).toContain('[[hsl#210,50,40]]');
+		expect(bgHsl(0, 0, 0)('x')).toContain('[[bgHsl#0,0,0]]');
+		expect(ansi256(196)('x')).toContain('[[ansi256#196]]');
+		expect(bgAnsi256(16)('x')).toContain('[[bgAnsi256#16]]');
+		expect(named('rebeccapurple')('x')).toContain('[[named#rebeccapurple]]');
+		expect(bgNamed('navy')('x')).toContain('[[bgNamed#navy]]');
+	});
+
+	it('should chain with cols', () => {
+		expect(cols.bold.rgb(255, 0, 0)('x')).toBe(
+			'[mtxt-style[[rgb#255,0,0 bold]]]x[[/mtxt-style]]',
+		);
+		expect(cols.italic.hex('#fff').underline('x')).toBe(
+			'[mtxt-style[[underline hex#fff italic]]]x[[/mtxt-style]]',
+		);
+		expect(rgb(1, 2, 3).bold.named('tomato')('x')).toBe(
+			'[mtxt-style[[named#tomato bold rgb#1,2,3]]]x[[/mtxt-style]]',
+		);
+	});
+
+	it('should resolve color styles', () => {
+		expect(parseColorStyle('hsl#0,100,50')).toEqual({
+			prefix: 'hsl',
+			target: 'fg',
+			rgb: [255, 0, 0],
+			css: 'hsl(0, 100%, 50%)',
+		});
+		expect(parseColorStyle('bgAnsi256#21')).toEqual({
+			prefix: 'bgAnsi256',
+			target: 'bg',
+			rgb: [0, 0, 255],
+			css: '#0000ff',
+			ansi256: 21,
+		});
+		expect(parseColorStyle('rgb#256,0,0')).toBeNull();
+		expect(parseColorStyle('named#notacolor')).toBeNull();
+	});
+
+	it('should render in the terminal at every color level', () => {
+		const input = ansi256(196)('a') + named('red')('b');
+		const render = (colorLevel: 16 | 256 | 'truecolor') =>
+			createRenderer({ mode: 'nodelike', colorLevel })(input)[0];
+
+		expect(render('truecolor')).toBe(
+			'\u001b[38;2;255;0;0ma\u001b[39m\u001b[38;2;255;0;0mb\u001b[39m',
+		);
+		expect(render(256)).toBe(
+			'\u001b[38;5;196ma\u001b[39m\u001b[38;5;9mb\u001b[39m',
+		);
+		expect(render(16)).toBe('\u001b[91ma\u001b[39m\u001b[91mb\u001b[39m');
+	});
+
+	it('should render in the browser', () => {
+		expect(renderToBrowser(rgb(1, 2, 3).bold('x'))).toEqual([
+			'%cx',
+			'color: rgb(1, 2, 3); font-weight: bold;',
+		]);
+		expect(renderToBrowser(bgNamed('navy')('x'))).toEqual([
+			'%cx',
+			'background-color: navy;',
+		]);
+	});
+
+	it('should report malformed colors', () => {
+		const { diagnostics } = pseudoLangToTree(
+			'[mtxt-style[[rgb#300,0,0]]]x[[/mtxt-style]]',
+			{ diagnostics: true },
+		);
+		expect(diagnostics.map((d) => d.kind)).toEqual(['malformed-color']);
+	});
+
+	it('should not take object keys for color names', () => {
+		const render = createRenderer({
+			mode: 'nodelike',
+			colorLevel: 'truecolor',
+		});
+		for (const name of ['toString', 'constructor']) {
+			const input = `[mtxt-style[[named#${name}]]]x[[/mtxt-style]]`;
+			expect(parseColorStyle(`bgNamed#${name}`)).toBeNull();
+			expect(render(input)).toEqual(['x']);
+			expect(renderToBrowser(input)).toEqual(['%cx', '']);
+			expect(
+				pseudoLangToTree(input, { diagnostics: true }).diagnostics,
+			).toEqual([expect.objectContaining({ kind: 'malformed-color' })]);
+		}
+	});
+});
+
+describe('color math', () => {
+	it('should lighten and darken colors', () => {
+		expect(lighten('#336699', 0.2)).toBe('#6699cc');
+		expect(darken('#336699', 0.2)).toBe('#19334d');
+	});
+
+	it('should mix colors', () => {
+		expect(mix('#000000', '#ffffff')).toBe('#808080');
+		expect(mix('red', 'blue', 0)).toBe('#ff0000');
+		expect(mix('rgb(0, 0, 0)', 'hsl(0, 0%, 100%)', 0.25)).toBe('#404040');
+	});
+
+	it('should alpha-blend against a background', () => {
+		expect(blend('#ffffff', '#000000', 0.5)).toBe('#808080');
+		expect(blend('red', 'white', 0.2)).toBe('#ffcccc');
+	});
+
+	it('should reject invalid colors', () => {
+		expect(() => lighten('nope' as 'red', 0.1)).toThrow(TypeError);
+		expect(() => mix('constructor' as 'red', 'blue')).toThrow(TypeError);
+	});
+});
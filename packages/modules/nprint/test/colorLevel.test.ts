@@ -0,0 +1,121 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cols, hex } from '../src/lib/cols/colorPack';
+import {
+	hexToRgb,
+	nearestAnsi16,
+	nearestAnsi256,
+} from '../src/lib/cols/colorQuantize';
+import { createRenderer } from '../src/lib/lang/render';
+import { detectColorLevel } from '../src/lib/utils/colorSupport';
+
+describe('detectColorLevel', () => {
+	const isTTY = Object.getOwnPropertyDescriptor(process.stdout, 'isTTY');
+	const setTTY = (value: boolean) =>
+		Object.defineProperty(process.stdout, 'isTTY', {
+			value,
+			configurable: true,
+		});
+
+	afterEach(() => {
+		vi.unstubAllEnvs();
+		if (isTTY) Object.defineProperty(process.stdout, 'isTTY', isTTY);
+		else delete (process.stdout as { isTTY?: boolean }).isTTY;
+	});
+
+	it('should disable colors when NO_COLOR is set', () => {
+		vi.stubEnv('NO_COLOR', '1');
+		vi.stubEnv('FORCE_COLOR', '3');
+		expect(detectColorLevel()).toBe(0);
+	});
+
+	it('should honor FORCE_COLOR levels', () => {
+		vi.stubEnv('NO_COLOR', '');
+		vi.stubEnv('FORCE_COLOR', '0');
+		expect(detectColorLevel()).toBe(0);
+		vi.stubEnv('FORCE_COLOR', '');
+		expect(detectColorLevel()).toBe(1);
+		vi.stubEnv('FORCE_COLOR', '2');
+		expect(detectColorLevel()).toBe(2);
+		vi.stubEnv('FORCE_COLOR', '3');
+		expect(detectColorLevel()).toBe(3);
+	});
+
+	it('should read TERM and COLORTERM on a TTY', () => {
+		vi.stubEnv('NO_COLOR', undefined);
+		vi.stubEnv('FORCE_COLOR', undefined);
+		vi.stubEnv('WT_SESSION', undefined);
+		setTTY(true);
+
+		vi.stubEnv('TERM', 'xterm-256color');
+		vi.stubEnv('COLORTERM', '');
+		expect(detectColorLevel()).toBe(2);
+
+		vi.stubEnv('COLORTERM', 'truecolor');
+		expect(detectColorLevel()).toBe(3);
+
+		vi.stubEnv('TERM', 'dumb');
+		expect(detectColorLevel()).toBe(0);
+
+		setTTY(false);
+		vi.stubEnv('TERM', 'xterm-256color');
+		expect(detectColorLevel()).toBe(0);
+	});
+});
+
+describe('color quantization', () => {
+	it('should parse 3 and 6-digit hex colors', () => {
+		expect(hexToRgb('#f80')).toEqual([255, 136, 0]);
+		expect(hexToRgb('#0a0b0c')).toEqual([10, 11, 12]);
+		expect(hexToRgb('#nope')).toBeNull();
+	});
+
+	it('should find the nearest 256-color entry', () => {
+		expect(nearestAnsi256([255, 0, 0])).toBe(9);
+		expect(nearestAnsi256([95, 135, 175])).toBe(67);
+		expect(nearestAnsi256([128, 128, 128])).toBe(244);
+	});
+
+	it('should find the nearest basic color', () => {
+		expect(nearestAnsi16([250, 10, 10])).toBe('redBright');
+		expect(nearestAnsi16([0, 0, 150])).toBe('blue');
+		expect(nearestAnsi16([20, 20, 20])).toBe('black');
+	});
+});
+
+describe('createRenderer colorLevel', () => {
+	const input = hex('#ff0000')('x') + cols.bold('y');
+
+	it('should emit no escape codes with "none"', () => {
+		const render = createRenderer({ mode: 'nodelike', colorLevel: 'none' });
+		expect(render(input)).toEqual(['xy']);
+	});
+
+	it('should quantize hex colors to the basic palette with 16', () => {
+		const render = createRenderer({ mode: 'nodelike', colorLevel: 16 });
+		expect(render(input)).toEqual([
+			'\u001b[91mx\u001b[39m\u001b[1my\u001b[22m',
+		]);
+	});
+
+	it('should quantize hex colors to the 256 palette with 256', () => {
+		const render = createRenderer({ mode: 'nodelike', colorLevel: 256 });
+		expect(render(input)).toEqual([
+			'\u001b[38;5;9mx\u001b[39m\u001b[1my\u001b[22m',
+		]);
+	});
+
+	it('should emit 24-bit colors with "truecolor"', () => {
+		const render = createRenderer({
+			mode: 'nodelike',
+			colorLevel: 'truecolor',
+		});
+		expect(render(input)).toEqual([
+			'\u001b[38;2;255;0;0mx\u001b[39m\u001b[1my\u001b[22m',
+		]);
+	});
+
+	it('should drop browser CSS with "none"', () => {
+		const render = createRenderer({ mode: 'browser', colorLevel: 'none' });
+		expect(render(cols.red('x'))).toEqual(['%cx', '']);
+	});
+});
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import javascript from 'highlight.js/lib/languages/javascript';
+import { diff } from '../src/lib/utils/diff';
+import { registerLang } from '../src/lib/code/code';
+import { cols } from '../src/lib/cols/colorPack';
+import { stripStyles } from '../src/lib/utils/visibleText';
+import { writeSync } from '../src/lib/write/writeExtends';
+
+const plain = (...args: Parameters<typeof diff>) => stripStyles(diff(...args));
+
+describe('diff', () => {
+	it('should return nothing for equal inputs', () => {
+		expect(diff('a\nb', 'a\nb')).toBe('');
+		expect(diff({ a: 1 }, { a: 1 })).toBe('');
+	});
+
+	it('should show changed lines with context', () => {
+		const a = ['1', '2', '3', '4', '5', '6', '7', '8', '9'].join('\n');
+		const b = ['1', '2', '3', 'four', '5', '6', '7', '8', '9', '10'].join('\n');
+		expect(plain(a, b, { context: 1, labels: ['old', 'new'] })).toBe(
+			[
+				'--- old',
+				'+++ new',
+				'@@ -3,3 +3,3 @@',
+				'  3',
+				'- 4',
+				'+ four',
+				'  5',
+				'@@ -9 +9,2 @@',
+				'  9',
+				'+ 10',
+			].join('\n'),
+		);
+	});
+
+	it('should number the lines of one-sided hunks', () => {
+		expect(plain('a\nb\nc', 'a\nc', { context: 0 })).toBe('@@ -2 +1,0 @@\n- b');
+		expect(plain('x', 'y\nx', { context: 5 })).toBe('@@ -1 +1,2 @@\n+ y\n  x');
+	});
+
+	it('should color removed and added lines', () => {
+		const output = diff('a', 'b');
+		expect(output).toContain(cols.red('-'));
+		expect(output).toContain(cols.red('a'));
+		expect(output).toContain(cols.green('b'));
+		expect(output).toContain(cols.cyan('@@ -1 +1 @@'));
+		expect(diff('a', 'b', { colors: { removed: 'magenta' } })).toContain(
+			cols.magenta('a'),
+		);
+	});
+
+	it('should highlight the changed words and characters', () => {
+		const highlight = cols.bgHex('#abcdef');
+		const words = diff('let a = 1;', 'let b = 1;', {
+			mode: 'words',
+			colors: { removedHighlight: highlight, addedHighlight: highlight },
+		});
+		expect(words).toContain(`${cols.red('let ')}${highlight('a')}`);
+		expect(words).toContain(`${cols.green('let ')}${highlight('b')}`);
+
+		const chars = diff('color', 'colour', {
+			mode: 'chars',
+			colors: { addedHighlight: highlight },
+		});
+		expect(chars).toContain(`${cols.green('colo')}${highlight('u')}`);
+	});
+
+	it('should escape the compared text', () => {
+		const output = diff('[[/mtxt-style]]', 'x');
+		expect(output).toContain('[mtxt-esc][mtxt-esc]/mtxt-style]]');
+		expect(stripStyles(output)).toContain('- [[/mtxt-style]]');
+	});
+
+	it('should lay both sides next to each other', () => {
+		expect(plain('a\nb\nc', 'a\nB\nc\nd', { layout: 'split', width: 23 })).toBe(
+			[
+				'@@ -1,3 +1,4 @@',
+				'  a        │   a       ',
+				'- b        │ + B       ',
+				'  c        │   c       ',
+				'           │ + d       ',
+			].join('\n'),
+		);
+	});
+
+	it('should compare values through inspect', () => {
+		expect(plain({ b: 1, a: [1] }, { a: [1, 2], b: 1 })).toBe(
+			[
+				'@@ -1,6 +1,7 @@',
+				'  {',
+				'    a: [',
+				'-     1',
+				'+     1,',
+				'+     2',
+				'    ],',
+				'    b: 1',
+				'  }',
+			].join('\n'),
+		);
+	});
+
+	it('should highlight code with a background on changed lines', () => {
+		registerLang('js', javascript);
+		const output = diff('const a = 1;', 'const a = 2;', { lang: 'js' });
+		expect(stripStyles(output)).toBe(
+			'@@ -1 +1 @@\n- const a = 1;\n+ const a = 2;',
+		);
+		expect(output).toContain('bgHex#3d1418');
+		expect(output).toContain('hex#');
+	});
+
+	it('should be available in write()', () => {
+		const output = writeSync(({ pretty }) => pretty.diff('a', 'b'));
+		expect(stripStyles(output)).toBe('@@ -1 +1 @@\n- a\n+ b');
+	});
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { cols, gradient, gradientPresets } from '../src/lib/cols/colorPack';
+import { pseudoLangToTree } from '../src/lib/lang/pseudoParser';
+import { renderToBrowser, createRenderer } from '../src/lib/lang/render';
+import { stripStyles } from '../src/lib/utils/visibleText';
+
+const tag = (color: string, text: string) =>
+	`[mtxt-style[[hex${color}]]]${text}[[/mtxt-style]]`;
+
+describe('gradient', () => {
+	it('should interpolate a color per visible character', () => {
+		expect(gradient(['#000000', '#ffffff'])('abc')).toBe(
+			tag('#000000', 'a') + tag('#808080', 'b') + tag('#ffffff', 'c'),
+		);
+	});
+
+	it('should spread over every stop', () => {
+		const output = gradient(['#ff0000', '#00ff00', '#0000ff'])('abc');
+		expect(output).toBe(
+			tag('#ff0000', 'a') + tag('#00ff00', 'b') + tag('#0000ff', 'c'),
+		);
+	});
+
+	it('should leave whitespace uncolored and merge equal colors', () => {
+		expect(gradient(['#ff0000'])('a b')).toBe(
+			tag('#ff0000', 'a') + ' ' + tag('#ff0000', 'b'),
+		);
+		expect(gradient(['#ff0000'])('ab')).toBe(tag('#ff0000', 'ab'));
+	});
+
+	it('should color per line in lines mode', () => {
+		expect(gradient(['#000000', '#ffffff'], { mode: 'lines' })('ab\ncd')).toBe(
+			tag('#000000', 'ab') + '\n' + tag('#ffffff', 'cd'),
+		);
+	});
+
+	it('should skip existing tags', () => {
+		const output = gradient(['#000000', '#ffffff'])(`a${cols.bold('b')}c`);
+		expect(output).toBe(
+			tag('#000000', 'a') +
+				'[mtxt-style[[bold]]]' +
+				tag('#808080', 'b') +
+				'[[/mtxt-style]]' +
+				tag('#ffffff', 'c'),
+		);
+		expect(pseudoLangToTree(output, { diagnostics: true }).diagnostics).toEqual(
+			[],
+		);
+	});
+
+	it('should keep escaped text escaped', () => {
+		const output = gradient('fire')(cols.red.raw('[[/mtxt-style]]'));
+		expect(stripStyles(output)).toBe('[[/mtxt-style]]');
+	});
+
+	it('should render in the terminal and the browser', () => {
+		const output = gradient(['#ff0000', '#0000ff'])('ab');
+		const terminal = createRenderer({
+			mode: 'nodelike',
+			colorLevel: 'truecolor',
+		})(output)[0];
+		expect(terminal).toBe(
+			'\u001b[38;2;255;0;0ma\u001b[39m\u001b[38;2;0;0;255mb\u001b[39m',
+		);
+		expect(renderToBrowser(output)).toEqual([
+			'%ca%cb',
+			'color: #ff0000;',
+			'color: #0000ff;',
+		]);
+	});
+
+	it('should provide presets', () => {
+		for (const preset of Object.keys(gradientPresets)) {
+			const output = gradient(preset as keyof typeof gradientPresets)('hi');
+			expect(stripStyles(output)).toBe('hi');
+		}
+	});
+
+	it('should reject invalid colors', () => {
+		expect(() => gradient([])).toThrow(TypeError);
+		expect(() => gradient(['#zzz' as '#fff'])).toThrow('Invalid color "#zzz"');
+	});
+});
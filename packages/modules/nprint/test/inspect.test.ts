@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { inspect } from '../src/lib/utils/inspect';
+import { createRenderer, renderToBrowser } from '../src/lib/lang/render';
+import { ThemeRegistry } from '../src/lib/code/regitery';
+import { stripStyles } from '../src/lib/utils/visibleText';
+
+const plain = (value: unknown, options = {}) =>
+	stripStyles(inspect(value, options));
+
+// Same shape as ndata's Result, which marks success with an undefined error
+class Result {
+	constructor(
+		public value: unknown,
+		public error: unknown,
+	) {}
+	isOk() {
+		return this.error === undefined;
+	}
+	isErr() {
+		return this.error !== undefined;
+	}
+}
+
+describe('inspect', () => {
+	it('should print primitives', () => {
+		expect(plain("it's\n")).toBe("'it\\'s\\n'");
+		expect(plain(-0)).toBe('-0');
+		expect(plain(10n)).toBe('10n');
+		expect(plain(null)).toBe('null');
+		expect(plain(undefined)).toBe('undefined');
+		expect(plain(Symbol('id'))).toBe('Symbol(id)');
+		expect(plain(function run() {})).toBe('[Function: run]');
+		expect(plain(class Job {})).toBe('[class Job]');
+		expect(plain(/a+/g)).toBe('/a+/g');
+		expect(plain(new Date(0))).toBe('1970-01-01T00:00:00.000Z');
+	});
+
+	it('should print containers on one line when they fit', () => {
+		const value = {
+			id: 1,
+			'my-key': [true, 'a'],
+			tags: new Set(['x']),
+			map: new Map([['k', 2]]),
+			empty: {},
+		};
+		expect(plain(value, { compact: 100 })).toBe(
+			"{ id: 1, 'my-key': [ true, 'a' ], tags: Set(1) { 'x' }, map: Map(1) { 'k' => 2 }, empty: {} }",
+		);
+	});
+
+	it('should break long containers across lines', () => {
+		expect(plain({ a: [1, 2], b: { c: 'd' } }, { compact: false })).toBe(
+			[
+				'{',
+				'  a: [',
+				'    1,',
+				'    2',
+				'  ],',
+				'  b: {',
+				"    c: 'd'",
+				'  }',
+				'}',
+			].join('\n'),
+		);
+		const value = { list: [1, 2, 3], name: 'abc' };
+		expect(plain(value, { compact: 24, indent: 4 })).toBe(
+			"{\n    list: [ 1, 2, 3 ],\n    name: 'abc'\n}",
+		);
+	});
+
+	it('should sort keys and name class instances', () => {
+		class Point {
+			y = 2;
+			x = 1;
+		}
+		expect(plain(new Point(), { sortKeys: true })).toBe('Point { x: 1, y: 2 }');
+		expect(plain(Object.create(null))).toBe('[Object: null prototype] {}');
+	});
+
+	it('should limit depth and items', () => {
+		expect(plain({ a: { b: { c: {} } } }, { depth: 1 })).toBe(
+			'{ a: { b: [Object] } }',
+		);
+		expect(plain([1, 2, 3, 4], { maxItems: 2 })).toBe(
+			'[ 1, 2, ... 2 more items ]',
+		);
+	});
+
+	it('should detect cycles', () => {
+		const value: Record<string, unknown> = { name: 'root' };
+		value.self = value;
+		value.list = [value];
+		expect(plain(value)).toBe(
+			"{ name: 'root', self: [Circular], list: [ [Circular] ] }",
+		);
+
+		const shared = { x: 1 };
+		expect(plain([shared, shared])).toBe('[ { x: 1 }, { x: 1 } ]');
+	});
+
+	it('should print errors and results', () => {
+		const error = new Error('boom');
+		error.stack = 'Error: boom\n    at main';
+		expect(plain(error)).toBe('Error: boom\n    at main');
+		expect(plain(new Result(1, undefined))).toBe('Ok(1)');
+		expect(plain(new Result(null, undefined))).toBe('Ok(null)');
+		expect(plain(new Result(undefined, 'bad'))).toBe("Err('bad')");
+		expect(plain(new Result(undefined, new TypeError('bad')))).toMatch(
+			/^Err\(TypeError: bad/,
+		);
+	});
+
+	it('should not call getters', () => {
+		const value = {
+			id: 1,
+			get broken(): number {
+				throw new Error('boom');
+			},
+			set only(_: number) {},
+			get both() {
+				return 2;
+			},
+			set both(_: number) {},
+		};
+		expect(plain(value)).toBe(
+			'{ id: 1, broken: [Getter], only: [Setter], both: [Getter/Setter] }',
+		);
+	});
+
+	it('should escape values and color tokens', () => {
+		const output = inspect({ tag: '[[/mtxt-style]]' });
+		expect(output).toContain('[mtxt-esc][mtxt-esc]/mtxt-style]]');
+		const render = createRenderer({ mode: 'nodelike', colorLevel: 16 });
+		expect(stripStyles(output)).toBe("{ tag: '[[/mtxt-style]]' }");
+		expect(render(inspect(42))[0]).toBe('\u001b[33m42\u001b[39m');
+		expect(renderToBrowser(inspect(42))[1]).toContain('color');
+	});
+
+	it('should take colors from a code theme', () => {
+		const [style] = ThemeRegistry.monokai.styles['.hljs-number'];
+		expect(inspect(42, { theme: 'monokai' })).toBe(style('42'));
+	});
+});
@@ -0,0 +1,199 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LiveRegion, LiveStream } from '../src/lib/live/liveRegion';
+import {
+	progressBar,
+	renderProgressBar,
+	spinner,
+	taskList,
+} from '../src/lib/live/progress';
+import { stripAnsi } from '../src/lib/utils/visibleText';
+
+function fakeStream(isTTY: boolean, columns?: number) {
+	const chunks: string[] = [];
+	const stream: LiveStream = {
+		write: (chunk) => chunks.push(chunk),
+		isTTY,
+		columns,
+	};
+	return { stream, chunks };
+}
+
+describe('LiveRegion', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('should redraw in place on a TTY', () => {
+		const { stream, chunks } = fakeStream(true);
+		const region = new LiveRegion({ stream, colorLevel: 'none' });
+		region.update(['a', 'b']);
+		region.update(['c']);
+		region.done(['d']);
+
+		expect(chunks).toEqual([
+			'\u001b[?25la\nb',
+			'\r\u001b[1A\u001b[0Jc',
+			'\r\u001b[0Jd',
+			'\n\u001b[?25h',
+		]);
+	});
+
+	it('should cut lines to the terminal width', () => {
+		const { stream, chunks } = fakeStream(true, 4);
+		new LiveRegion({ stream, colorLevel: 'none' }).update(['abcdef']);
+		expect(stripAnsi(chunks[0])).toBe('abc…');
+	});
+
+	it('should print throttled plain lines elsewhere', () => {
+		const { stream, chunks } = fakeStream(false);
+		const region = new LiveRegion({ stream, interval: 1000 });
+		region.update(['a']);
+		region.update(['b']);
+		vi.advanceTimersByTime(1000);
+		region.update(['c']);
+		region.update(['c']);
+		region.done(['d']);
+		region.update(['e']);
+
+		expect(chunks).toEqual(['a\n', 'c\n', 'd\n']);
+	});
+
+	it('should render styles on TTYs only', () => {
+		const styled = '[mtxt-style[[red]]]x[[/mtxt-style]]';
+		const tty = fakeStream(true);
+		new LiveRegion({ stream: tty.stream, colorLevel: 16 }).update([styled]);
+		expect(tty.chunks[0]).toContain('\u001b[31mx');
+
+		const plain = fakeStream(false);
+		new LiveRegion({ stream: plain.stream }).update([styled]);
+		expect(plain.chunks[0]).toBe('x\n');
+	});
+
+	it('should detect colors from its own stream', () => {
+		vi.stubEnv('NO_COLOR', undefined);
+		vi.stubEnv('FORCE_COLOR', undefined);
+		vi.stubEnv('TERM', 'xterm');
+		vi.stubEnv('COLORTERM', '');
+		vi.stubEnv('WT_SESSION', undefined);
+		const stdout = Object.getOwnPropertyDescriptor(process.stdout, 'isTTY');
+		Object.defineProperty(process.stdout, 'isTTY', {
+			value: false,
+			configurable: true,
+		});
+
+		try {
+			const { stream, chunks } = fakeStream(true);
+			new LiveRegion({ stream, colorLevel: 'auto' }).update([
+				'[mtxt-style[[red]]]x[[/mtxt-style]]',
+			]);
+			expect(chunks[0]).toContain('\u001b[31mx');
+		} finally {
+			vi.unstubAllEnvs();
+			if (stdout) Object.defineProperty(process.stdout, 'isTTY', stdout);
+			else delete (process.stdout as { isTTY?: boolean }).isTTY;
+		}
+	});
+});
+
+describe('progress bar', () => {
+	it('should render the bar, percentage and count', () => {
+		const line = renderProgressBar(5, {
+			total: 10,
+			width: 10,
+			label: 'Bundling',
+			color: 'green',
+		});
+		expect(line).toBe(
+			'Bundling [mtxt-style[[green]]]█████[[/mtxt-style]][mtxt-style[[gray]]]░░░░░[[/mtxt-style]]  50% 5/10',
+		);
+		expect(renderProgressBar(20, { total: 10, width: 2 })).toContain(
+			'100% 10/10',
+		);
+		expect(renderProgressBar(0, { total: 0, width: 2 })).toContain('100% 0/0');
+	});
+
+	it('should update as it ticks', () => {
+		const { stream, chunks } = fakeStream(false);
+		const bar = progressBar({ total: 2, width: 2, stream, interval: 0 });
+		bar.tick();
+		bar.tick(1, 'Finished');
+		bar.done();
+
+		expect(chunks).toEqual([
+			'░░   0% 0/2\n',
+			'█░  50% 1/2\n',
+			'Finished ██ 100% 2/2\n',
+		]);
+	});
+
+	it('should tick when detached from the bar', () => {
+		const { stream, chunks } = fakeStream(false);
+		const { tick } = progressBar({ total: 2, width: 2, stream, interval: 0 });
+		tick();
+
+		expect(chunks.at(-1)).toBe('█░  50% 1/2\n');
+	});
+});
+
+describe('spinner', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('should animate on a TTY and stop with a mark', () => {
+		const { stream, chunks } = fakeStream(true);
+		const spin = spinner('Working', {
+			stream,
+			colorLevel: 'none',
+			frames: 'line',
+			frameInterval: 100,
+		});
+		vi.advanceTimersByTime(200);
+		spin.succeed('Done');
+		vi.advanceTimersByTime(200);
+
+		const frames = chunks.map((chunk) => stripAnsi(chunk).replace('\r', ''));
+		expect(frames).toEqual([
+			'- Working',
+			'\\ Working',
+			'| Working',
+			'✔ Done',
+			'\n',
+		]);
+	});
+
+	it('should print plain lines without animating elsewhere', () => {
+		const { stream, chunks } = fakeStream(false);
+		const spin = spinner('Working', { stream, frames: 'line' });
+		vi.advanceTimersByTime(1000);
+		spin.fail();
+
+		expect(chunks).toEqual(['- Working\n', '✖ Working\n']);
+	});
+});
+
+describe('task list', () => {
+	it('should show one line per task', () => {
+		const { stream, chunks } = fakeStream(false);
+		const list = taskList({ stream, frames: 'line', interval: 0 });
+		const a = list.add('Bundle esm');
+		const b = list.add('Bundle cjs');
+		a.succeed();
+		b.fail('Bundle cjs (2 errors)');
+		list.add('Types').skip();
+		list.done();
+
+		expect(a.status).toBe('success');
+		expect(chunks.at(-1)).toBe(
+			'✔ Bundle esm\n✖ Bundle cjs (2 errors)\n↓ Types\n',
+		);
+	});
+});
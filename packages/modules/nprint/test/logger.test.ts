@@ -0,0 +1,167 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cols } from '../src/lib/cols/colorPack';
+import { createLogger, LogRecord, matchNamespace } from '../src/lib/log/logger';
+import {
+	consoleTransport,
+	jsonTransport,
+	streamTransport,
+} from '../src/lib/log/transports';
+import { writeSync } from '../src/lib/write/writeExtends';
+
+function collect() {
+	const records: LogRecord[] = [];
+	return { records, transport: (record: LogRecord) => records.push(record) };
+}
+
+function fakeStream() {
+	const chunks: string[] = [];
+	return { chunks, stream: { write: (chunk: string) => chunks.push(chunk) } };
+}
+
+describe('createLogger', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+		vi.unstubAllEnvs();
+	});
+
+	it('should log the levels at or above its level', () => {
+		const { records, transport } = collect();
+		const log = createLogger({ level: 'warn', transports: [transport] });
+		log.trace('t');
+		log.info('i');
+		log.warn('w');
+		log.fatal('f');
+		expect(records.map((r) => r.level)).toEqual(['warn', 'fatal']);
+		expect(log.enabled('error')).toBe(true);
+		expect(log.enabled('debug')).toBe(false);
+	});
+
+	it('should log nothing when silent', () => {
+		const { records, transport } = collect();
+		const log = createLogger({ level: 'silent', transports: [transport] });
+		log.fatal('f');
+		expect(records).toEqual([]);
+	});
+
+	it('should format a badge, namespace and timestamp', () => {
+		const { records, transport } = collect();
+		const log = createLogger({
+			namespace: 'app',
+			timestamp: () => '12:00',
+			transports: [transport],
+		});
+		log.info('Listening on', cols.cyan(':8080'));
+
+		expect(records[0].message).toBe(`Listening on ${cols.cyan(':8080')}`);
+		expect(records[0].formatted).toBe(
+			[
+				cols.gray('12:00'),
+				cols.green('INFO '),
+				cols.magenta('app'),
+				records[0].message,
+			].join(' '),
+		);
+	});
+
+	it('should escape values that are not strings', () => {
+		const { records, transport } = collect();
+		const log = createLogger({ timestamp: false, transports: [transport] });
+		log.info({ tag: '[[/mtxt-style]]' }, 42);
+		expect(records[0].message).toBe(
+			'{"tag":"[mtxt-esc][mtxt-esc]/mtxt-style]]"} 42',
+		);
+	});
+
+	it('should accept write() output', () => {
+		const { records, transport } = collect();
+		const log = createLogger({ timestamp: false, transports: [transport] });
+		const output = writeSync(({ push, cols }) => push(cols.bold('done')));
+		log.info(output);
+		expect(records[0].message).toBe(cols.bold('done'));
+	});
+
+	it('should create child loggers', () => {
+		const { records, transport } = collect();
+		const log = createLogger({
+			namespace: 'app',
+			level: 'debug',
+			transports: [transport],
+		});
+		const db = log.child('db');
+		db.debug('query');
+		expect(db.namespace).toBe('app:db');
+		expect(db.level).toBe('debug');
+		expect(records[0].namespace).toBe('app:db');
+	});
+
+	it('should log every level of namespaces matching DEBUG', () => {
+		vi.stubEnv('DEBUG', 'app:*,-app:noisy');
+		const { records, transport } = collect();
+		const log = createLogger({ namespace: 'app', transports: [transport] });
+		log.child('db').trace('a');
+		log.child('noisy').trace('b');
+		log.trace('c');
+		expect(records.map((r) => r.message)).toEqual(['a']);
+	});
+
+	it('should keep silent loggers silent when DEBUG matches', () => {
+		vi.stubEnv('DEBUG', 'app*');
+		const { records, transport } = collect();
+		const log = createLogger({
+			namespace: 'app',
+			level: 'silent',
+			transports: [transport],
+		});
+		log.error('a');
+		log.child('db').error('b');
+		expect(log.level).toBe('silent');
+		expect(records).toEqual([]);
+	});
+});
+
+describe('matchNamespace', () => {
+	it('should match patterns with wildcards and exclusions', () => {
+		expect(matchNamespace('app:db', 'app:*')).toBe(true);
+		expect(matchNamespace('app', 'app:*')).toBe(false);
+		expect(matchNamespace('app:db', '*,-app:db')).toBe(false);
+		expect(matchNamespace('worker', 'app,worker')).toBe(true);
+		expect(matchNamespace('app.x', 'app*')).toBe(true);
+		expect(matchNamespace('app', '')).toBe(false);
+	});
+});
+
+describe('transports', () => {
+	const record: LogRecord = {
+		level: 'error',
+		namespace: 'app',
+		time: new Date('2025-01-01T00:00:00.000Z'),
+		message: cols.red('boom'),
+		formatted: `${cols.red('ERROR')} ${cols.red('boom')}`,
+	};
+
+	it('should render to the console', () => {
+		const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+		consoleTransport({ mode: 'nodelike', colorLevel: 16 })(record);
+		expect(error).toHaveBeenCalledWith(
+			'\u001b[31mERROR\u001b[39m \u001b[31mboom\u001b[39m',
+		);
+	});
+
+	it('should write plain lines to a stream', () => {
+		const { chunks, stream } = fakeStream();
+		streamTransport(stream)(record);
+		expect(chunks).toEqual(['ERROR boom\n']);
+	});
+
+	it('should write JSON lines', () => {
+		const { chunks, stream } = fakeStream();
+		jsonTransport(stream)(record);
+		expect(JSON.parse(chunks[0])).toEqual({
+			time: '2025-01-01T00:00:00.000Z',
+			level: 'error',
+			namespace: 'app',
+			message: 'boom',
+		});
+		expect(chunks[0].endsWith('\n')).toBe(true);
+	});
+});
@@ -0,0 +1,167 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import javascript from 'highlight.js/lib/languages/javascript';
+import { code, registerLang } from '../src/lib/code/code';
+import { cols } from '../src/lib/cols/colorPack';
+import { pseudoLangToTree } from '../src/lib/lang/pseudoParser';
+import { renderToBrowser } from '../src/lib/lang/render';
+import { markdown } from '../src/lib/utils/markdown';
+import { stripStyles } from '../src/lib/utils/visibleText';
+
+const plain = (source: string, width = 40) =>
+	stripStyles(markdown(source, { width }));
+
+describe('markdown', () => {
+	beforeAll(() => {
+		registerLang('js', javascript);
+	});
+
+	it('should style headings and inline markup', () => {
+		expect(markdown('## Setup')).toBe(cols.bold.magenta('Setup'));
+		expect(markdown('Title\n=====')).toBe(cols.bold.underline.magenta('Title'));
+		expect(markdown('**a** *b* _c_ ~~d~~ `e`')).toBe(
+			`${cols.bold('a')} ${cols.italic('b')} ${cols.italic('c')} ${cols.strikethrough('d')} ${cols.cyan('e')}`,
+		);
+		expect(markdown('***both***')).toBe(cols.italic(cols.bold('both')));
+	});
+
+	it('should follow the CommonMark emphasis rules', () => {
+		expect(plain('snake_case_name and 2 * 3 * 4')).toBe(
+			'snake_case_name and 2 * 3 * 4',
+		);
+		expect(plain('\\*not emphasized\\* and `**code**`')).toBe(
+			'*not emphasized* and **code**',
+		);
+		expect(plain('**unclosed *nested*')).toBe('**unclosed nested');
+		expect(plain('&lt;tag&gt; &amp; &#x27;')).toBe("<tag> & '");
+	});
+
+	it('should show links with their address', () => {
+		expect(markdown('[docs](https://x.dev "Docs")')).toBe(
+			`${cols.underline.blue('docs')} ${cols.gray('(https://x.dev)')}`,
+		);
+		expect(plain('<https://x.dev> and [https://x.dev](https://x.dev)')).toBe(
+			'https://x.dev and https://x.dev',
+		);
+		expect(
+			plain('See [the guide][g] or [g].\n\n[g]: https://x.dev/guide', 80),
+		).toBe('See the guide (https://x.dev/guide) or g (https://x.dev/guide).');
+		expect(plain('[not a link] [x](<a b>)')).toBe('[not a link] x (a b)');
+	});
+
+	it('should wrap paragraphs and keep hard breaks', () => {
+		expect(plain('one two three four five six seven\neight  \nnine', 20)).toBe(
+			'one two three four\nfive six seven eight\nnine',
+		);
+	});
+
+	it('should render block quotes', () => {
+		expect(plain('> quoted\nlazy line\n>\n> > nested')).toBe(
+			'│ quoted lazy line\n│\n│ │ nested',
+		);
+	});
+
+	it('should render lists', () => {
+		expect(
+			plain('- one\n- two\n  * nested\n\n    more\n- [x] done\n- [ ] todo'),
+		).toBe(
+			[
+				'• one',
+				'• two',
+				'  ◦ nested',
+				'',
+				'    more',
+				'• ☑ done',
+				'• ☐ todo',
+			].join('\n'),
+		);
+		expect(plain('9. nine\n\n10. ten\n\n+ other list')).toBe(
+			['9.  nine', '', '10. ten', '', '• other list'].join('\n'),
+		);
+	});
+
+	it('should render tables', () => {
+		expect(
+			plain('| Name | Size |\n|:-----|-----:|\n| `a\\|b` | 10 |\n| c |'),
+		).toBe(
+			[
+				'┌──────┬──────┐',
+				'│ Name │ Size │',
+				'├──────┼──────┤',
+				'│ a|b  │   10 │',
+				'│ c    │      │',
+				'└──────┴──────┘',
+			].join('\n'),
+		);
+	});
+
+	it('should render rules and code blocks', () => {
+		const source = [
+			'before',
+			'',
+			'---',
+			'',
+			'```js',
+			'const a = 1;',
+			'```',
+			'',
+			'~~~',
+			'plain [text]',
+			'~~~',
+			'',
+			'    indented',
+		].join('\n');
+
+		expect(plain(source, 10)).toBe(
+			[
+				'before',
+				'',
+				'──────────',
+				'',
+				'  const a = 1;',
+				'',
+				'  plain [text]',
+				'',
+				'  indented',
+			].join('\n'),
+		);
+		expect(markdown('```js\nlet a\n```', { theme: 'monokai' })).toBe(
+			'  ' + code({ lang: 'js', content: 'let a', theme: 'monokai' }),
+		);
+	});
+
+	it('should apply custom styles', () => {
+		expect(
+			markdown('`x` **y**', {
+				styles: { code: 'red', strong: cols.underline },
+			}),
+		).toBe(`${cols.red('x')} ${cols.underline('y')}`);
+	});
+
+	it('should produce valid pseudo-language for every renderer', () => {
+		const source = [
+			'# Release [1.2]',
+			'',
+			'> **Note** `[mtxt-style[[red]]]` stays text',
+			'',
+			'1. item with [link](https://x.dev)',
+			'',
+			'| a | b |',
+			'|---|---|',
+			'| *1* | 2 |',
+			'',
+			'```js',
+			'const list = [1, 2];',
+			'```',
+		].join('\n');
+		const output = markdown(source, { width: 60 });
+
+		const { diagnostics } = pseudoLangToTree(output, { diagnostics: true });
+		expect(diagnostics).toEqual([]);
+		expect(stripStyles(output)).toContain(
+			'Note [mtxt-style[[red]]] stays text',
+		);
+
+		const [text] = renderToBrowser(output);
+		expect(text.replaceAll('%c', '')).toBe(stripStyles(output));
+	});
+});
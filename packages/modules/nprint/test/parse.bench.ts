@@ -0,0 +1,53 @@
+import { bench, describe } from 'vitest';
+import hljs from 'highlight.js/lib/core';
+import javascript from 'highlight.js/lib/languages/javascript';
+import HTML from 'html-parse-stringify';
+import { tokenTreeRoot } from '../src/lib/code/parse';
+import fullEscapeMap from '../src/lib/code/escape.json';
+import type { HtmlNode, Node } from '../src/lib/code/types';
+
+/**
+ * How code() built the element tree before reading the token tree: the
+ * whole HTML output unescaped entity by entity, then parsed back.
+ */
+function legacyRoot(html: string): HtmlNode {
+	let input = `<div>${html}</div>`;
+	for (const [entity, text] of Object.entries(fullEscapeMap)) {
+		while (input.match(entity)) input = input.replace(entity, text);
+	}
+	return toHtmlNodes(HTML.parse(input))[0] as HtmlNode;
+}
+
+function toHtmlNodes(nodes: HTML.Node[]): Node[] {
+	return nodes.flatMap((node): Node[] => {
+		if (node.type === 'text') return [node];
+		if (node.type !== 'tag') return [];
+		const { name, voidElement, attrs } = node;
+		return [
+			{
+				type: 'tag',
+				name,
+				voidElement,
+				attrs: attrs.class === undefined ? undefined : { class: attrs.class },
+				children: toHtmlNodes(node.children),
+			},
+		];
+	});
+}
+
+hljs.registerLanguage('javascript', javascript);
+const content = Array.from(
+	{ length: 500 },
+	(_, i) => `const value${i} = "a < b" && fn(${i}, 'x'); // ${i} & more`,
+).join('\n');
+const result = hljs.highlight(content, { language: 'javascript' });
+
+describe('building the element tree of 500 lines', () => {
+	bench('from the token tree', () => {
+		tokenTreeRoot(result);
+	});
+
+	bench('from the HTML output parsed back', () => {
+		legacyRoot(result.value);
+	});
+});
@@ -0,0 +1,113 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import hljs from 'highlight.js/lib/core';
+import javascript from 'highlight.js/lib/languages/javascript';
+import xml from 'highlight.js/lib/languages/xml';
+import css from 'highlight.js/lib/languages/css';
+import {
+	htmlRoot,
+	parseCode,
+	styleTree,
+	tokenTreeRoot,
+} from '../src/lib/code/parse';
+import { ThemeRegistry } from '../src/lib/code/regitery';
+import { unescapeHTML } from '../src/lib/code/unescape';
+import { cols } from '../src/lib/cols/colorPack';
+import { stripStyles } from '../src/lib/utils/visibleText';
+import type { HtmlNode } from '../src/lib/code/types';
+
+const samples: [string, string][] = [
+	[
+		'javascript',
+		[
+			'// a < b && c > d',
+			'const greet = (name) => `Hello ${name}, it\'s "me" & you`;',
+			'class Cat extends Animal {',
+			'\tmeow() { return [1 << 2, this.lives[0]]; }',
+			'}',
+		].join('\n'),
+	],
+	[
+		'xml',
+		[
+			'<!-- page -->',
+			'<style>a > b { color: red; }</style>',
+			'<p class="x">&amp; &lt;tag&gt; \'quoted\'</p>',
+		].join('\n'),
+	],
+];
+
+describe('parseCode', () => {
+	beforeAll(() => {
+		hljs.registerLanguage('javascript', javascript);
+		hljs.registerLanguage('xml', xml);
+		hljs.registerLanguage('css', css);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('should style the token tree like the HTML output', () => {
+		for (const [language, content] of samples) {
+			const result = hljs.highlight(content, { language });
+			const fromTokens = tokenTreeRoot(result);
+			expect(fromTokens).not.toBeNull();
+
+			for (const theme of Object.values(ThemeRegistry)) {
+				expect(styleTree(fromTokens!, theme)).toBe(
+					styleTree(htmlRoot(result.value), theme),
+				);
+			}
+			expect(stripStyles(parseCode(language, content))).toBe(content);
+		}
+	});
+
+	it('should keep the sub-language classes', () => {
+		const result = hljs.highlight('<style>a {}</style>', { language: 'xml' });
+		const classes: string[] = [];
+		const walk = (node: HtmlNode) => {
+			if (node.attrs?.class) classes.push(node.attrs.class);
+			node.children?.forEach((child) => child.type === 'tag' && walk(child));
+		};
+		walk(tokenTreeRoot(result)!);
+
+		expect(classes).toContain('language-css');
+		expect(classes).toContain('hljs-selector-tag');
+	});
+
+	it('should parse the HTML output when there is no token tree', () => {
+		const [language, content] = samples[0];
+		const expected = parseCode(language, content);
+		const highlight = hljs.highlight.bind(hljs);
+		vi.spyOn(hljs, 'highlight').mockImplementation((code, options) => ({
+			...highlight(code, options),
+			_emitter: undefined as never,
+		}));
+
+		expect(tokenTreeRoot(hljs.highlight(content, { language }))).toBeNull();
+		expect(parseCode(language, content)).toBe(expected);
+	});
+
+	it('should apply themes to the token tree', () => {
+		const output = parseCode('javascript', 'let a', {
+			name: 'test',
+			styles: { 'span.hljs-keyword': [cols.red] },
+		});
+		expect(output).toBe(`${cols.red('let')} a`);
+	});
+});
+
+describe('unescapeHTML', () => {
+	it('should decode named and numeric entities', () => {
+		expect(unescapeHTML('&lt;a&gt; &amp;amp; &quot;b&quot;')).toBe(
+			'<a> &amp; "b"',
+		);
+		expect(unescapeHTML('&#x27;x&#39; &#128512; &#X41;')).toBe("'x' 😀 A");
+	});
+
+	it('should leave unknown entities as they are', () => {
+		expect(unescapeHTML('&nosuch; &#xFFFFFFF; & amp;')).toBe(
+			'&nosuch; &#xFFFFFFF; & amp;',
+		);
+	});
+});
@@ -1,8 +1,10 @@
 import { describe, expect, it } from 'vitest';
 import {
+	escapePseudoLang,
 	matchClosingTag,
 	matchOpeningTag,
 	splitByPseudoColorLangTags,
+	unescapePseudoLang,
 	writePseudoColorLang,
 } from '../src/lib/lang/pseudoLang';
 
@@ -73,9 +75,7 @@ describe('writePseudoColorLang', () => {
 		const styles = ['red', 'bold'];
 		const text = 'Hello, World!';
 		const result = writePseudoColorLang(styles, text);
-		expect(result).toBe(
-			'[mtxt-style[[bold]]][mtxt-style[[red]]]Hello, World![[/mtxt-style]][[/mtxt-style]]',
-		);
+		expect(result).toBe('[mtxt-style[[red bold]]]Hello, World![[/mtxt-style]]');
 	});
 
 	it('should handle an empty styles array', () => {
@@ -85,3 +85,18 @@ describe('writePseudoColorLang', () => {
 		expect(result).toBe('Hello, World!');
 	});
 });
+
+describe('escapePseudoLang', () => {
+	it('should prevent tags from being formed', () => {
+		const input = 'a [mtxt-style[[red]]]b[[/mtxt-style]] c';
+		const result = escapePseudoLang(input);
+		expect(splitByPseudoColorLangTags(result)).toEqual([result]);
+	});
+
+	it('should round-trip through unescapePseudoLang', () => {
+		const inputs = ['[[/mtxt-style]]', '[mtxt-esc]', 'no brackets', '[[[]]]'];
+		for (const input of inputs) {
+			expect(unescapePseudoLang(escapePseudoLang(input))).toBe(input);
+		}
+	});
+});
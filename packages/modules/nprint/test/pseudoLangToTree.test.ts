@@ -1,5 +1,17 @@
 import { describe, expect, it } from 'vitest';
-import { pseudoLangToTree } from '../src/lib/lang/pseudoParser';
+import { bgHex, cols, hex } from '../src/lib/cols/colorPack';
+import { escapePseudoLang } from '../src/lib/lang/pseudoLang';
+import {
+	pseudoLangToTree,
+	PseudoLangSyntaxError,
+} from '../src/lib/lang/pseudoParser';
+import {
+	createRenderer,
+	renderToBrowser,
+	renderToHTML,
+	renderToNodeLike,
+} from '../src/lib/lang/render';
+import { writeSync } from '../src/lib/write/writeExtends';
 
 describe('pseudoLangToTree', () => {
 	it('should parse plain text without any tags', () => {
@@ -15,7 +27,7 @@ describe('pseudoLangToTree', () => {
 			{ type: 'text', content: 'Hello ' },
 			{
 				type: 'styled',
-				style: 'red',
+				styles: ['red'],
 				children: [{ type: 'text', content: 'world' }],
 			},
 			{ type: 'text', content: '!' },
@@ -29,11 +41,11 @@ describe('pseudoLangToTree', () => {
 		expect(result).toEqual([
 			{
 				type: 'styled',
-				style: 'red',
+				styles: ['red'],
 				children: [
 					{
 						type: 'styled',
-						style: 'bold',
+						styles: ['bold'],
 						children: [{ type: 'text', content: 'Hello' }],
 					},
 					{ type: 'text', content: ' world' },
@@ -50,13 +62,13 @@ describe('pseudoLangToTree', () => {
 		expect(result).toEqual([
 			{
 				type: 'styled',
-				style: 'red',
+				styles: ['red'],
 				children: [{ type: 'text', content: 'Hello' }],
 			},
 			{ type: 'text', content: ' ' },
 			{
 				type: 'styled',
-				style: 'blue',
+				styles: ['blue'],
 				children: [{ type: 'text', content: 'world' }],
 			},
 			{ type: 'text', content: '!' },
@@ -75,9 +87,172 @@ describe('pseudoLangToTree', () => {
 		expect(result).toEqual([
 			{
 				type: 'styled',
-				style: 'red',
+				styles: ['red'],
 				children: [],
 			},
 		]);
 	});
+
+	it('should parse escaped text as literal characters', () => {
+		const untrusted = '[[/mtxt-style]] [mtxt-style[[red]]]x';
+		const input = cols.bold(escapePseudoLang(untrusted));
+		const result = pseudoLangToTree(input);
+		expect(result).toEqual([
+			{
+				type: 'styled',
+				styles: ['bold'],
+				children: [{ type: 'text', content: untrusted }],
+			},
+		]);
+	});
+});
+
+describe('escaped text rendering', () => {
+	const untrusted = 'oops [[/mtxt-style]][mtxt-style[[red]]]injected';
+
+	it('should render the literal characters in every renderer', () => {
+		const input = cols.green.raw(untrusted);
+		expect(renderToNodeLike(input)[0]).toContain(untrusted);
+		expect(renderToBrowser(input)).toEqual(['%c' + untrusted, 'color: green;']);
+		expect(renderToHTML(input).html).toBe(
+			'<span style="color: green;">oops [[/mtxt-style]][mtxt-style[[red]]]injected</span>',
+		);
+	});
+
+	it('should escape pushed raw content', () => {
+		const output = writeSync(({ push }) => {
+			push(untrusted, { raw: true });
+		});
+		expect(pseudoLangToTree(output)).toEqual([
+			{ type: 'text', content: untrusted },
+		]);
+	});
+});
+
+describe('pseudoLangToTree diagnostics', () => {
+	it('should report nothing for well-formed input', () => {
+		const input = cols.red('a') + hex('#fff')('b') + bgHex('#000000')('c');
+		const result = pseudoLangToTree(input, { diagnostics: true });
+		expect(result.diagnostics).toEqual([]);
+		expect(result.nodes).toEqual(pseudoLangToTree(input));
+	});
+
+	it('should report unmatched closing tags', () => {
+		const input = 'oops[[/mtxt-style]]';
+		const { diagnostics } = pseudoLangToTree(input, { diagnostics: true });
+		expect(diagnostics).toEqual([
+			expect.objectContaining({
+				kind: 'unmatched-closing',
+				offset: 4,
+				length: 15,
+			}),
+		]);
+	});
+
+	it('should report unclosed opening tags', () => {
+		const input = 'a[mtxt-style[[red]]]b[mtxt-style[[bold]]]c[[/mtxt-style]]';
+		const { diagnostics } = pseudoLangToTree(input, { diagnostics: true });
+		expect(diagnostics).toEqual([
+			expect.objectContaining({
+				kind: 'unclosed-opening',
+				offset: 1,
+				length: 19,
+				style: 'red',
+			}),
+		]);
+	});
+
+	it('should report unknown styles and malformed hex values', () => {
+		const input =
+			'[mtxt-style[[purple]]]a[[/mtxt-style]][mtxt-style[[hex#12345]]]b[[/mtxt-style]]';
+		const { diagnostics } = pseudoLangToTree(input, { diagnostics: true });
+		expect(diagnostics).toEqual([
+			expect.objectContaining({
+				kind: 'unknown-style',
+				offset: 0,
+				style: 'purple',
+			}),
+			expect.objectContaining({
+				kind: 'malformed-hex',
+				offset: 38,
+				style: 'hex#12345',
+			}),
+		]);
+	});
+
+	it('should not take object keys for styles', () => {
+		const render = createRenderer({
+			mode: 'nodelike',
+			colorLevel: 'truecolor',
+		});
+		for (const style of ['constructor', 'toString', 'hasOwnProperty']) {
+			const input = `[mtxt-style[[${style}]]]x[[/mtxt-style]]`;
+			const { diagnostics } = pseudoLangToTree(input, { diagnostics: true });
+			expect(diagnostics).toEqual([
+				expect.objectContaining({ kind: 'unknown-style', style }),
+			]);
+			expect(render(input)).toEqual(['x']);
+		}
+	});
+
+	it('should throw in strict mode', () => {
+		expect(() => pseudoLangToTree('[[/mtxt-style]]', { strict: true })).toThrow(
+			PseudoLangSyntaxError,
+		);
+		expect(() =>
+			pseudoLangToTree(cols.red('ok'), { strict: true }),
+		).not.toThrow();
+	});
+
+	it('should let strict renderers reject malformed markup', () => {
+		const render = createRenderer({ mode: 'nodelike', strict: true });
+		expect(() => render('[mtxt-style[[red]]]never closed')).toThrow(
+			/never closed/,
+		);
+	});
+});
+
+describe('compound style tags', () => {
+	it('should parse a space-separated list of styles', () => {
+		const input = cols.bold.italic.red('x');
+		expect(input).toBe('[mtxt-style[[red italic bold]]]x[[/mtxt-style]]');
+		expect(pseudoLangToTree(input)).toEqual([
+			{
+				type: 'styled',
+				styles: ['red', 'italic', 'bold'],
+				children: [{ type: 'text', content: 'x' }],
+			},
+		]);
+	});
+
+	it('should report each faulty style of a compound tag', () => {
+		const input = '[mtxt-style[[red nope hex#zz]]]x[[/mtxt-style]]';
+		const { diagnostics } = pseudoLangToTree(input, { diagnostics: true });
+		expect(diagnostics.map((d) => [d.kind, d.style])).toEqual([
+			['unknown-style', 'nope'],
+			['malformed-hex', 'hex#zz'],
+		]);
+	});
+
+	it('should apply every style in the terminal renderer', () => {
+		const render = createRenderer({ mode: 'nodelike', colorLevel: 16 });
+		expect(render(cols.bold.red('x'))).toEqual([
+			'\u001b[1m\u001b[31mx\u001b[39m\u001b[22m',
+		]);
+	});
+
+	it('should apply every style in the browser renderer', () => {
+		expect(renderToBrowser(cols.bold.red('x'))).toEqual([
+			'%cx',
+			'font-weight: bold; color: red;',
+		]);
+	});
+
+	it('should combine nested styles in the browser renderer', () => {
+		expect(renderToBrowser(cols.bold('a' + cols.red('b')))).toEqual([
+			'%ca%cb',
+			'font-weight: bold;',
+			'font-weight: bold; color: red;',
+		]);
+	});
 });
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { bgHex, cols, hex } from '../src/lib/cols/colorPack';
+import { renderToBrowser, renderToHTML } from '../src/lib/lang/render';
+
+describe('renderToHTML', () => {
+	it('should escape plain text', () => {
+		const result = renderToHTML('<b>"Tom" & \'Jerry\'</b>');
+		expect(result).toEqual({
+			html: '&lt;b&gt;&quot;Tom&quot; &amp; &#39;Jerry&#39;&lt;/b&gt;',
+			css: '',
+		});
+	});
+
+	it('should render inline styles by default', () => {
+		const result = renderToHTML(cols.red('<error>'));
+		expect(result.html).toBe('<span style="color: red;">&lt;error&gt;</span>');
+		expect(result.css).toBe('');
+	});
+
+	it('should nest spans for nested styles', () => {
+		const result = renderToHTML(cols.bold(cols.red('x')));
+		expect(result.html).toBe(
+			'<span style="font-weight: bold;"><span style="color: red;">x</span></span>',
+		);
+	});
+
+	it('should render compound styles in a single span', () => {
+		const inline = renderToHTML(cols.bold.red('x'));
+		expect(inline.html).toBe(
+			'<span style="font-weight: bold; color: red;">x</span>',
+		);
+
+		const classes = renderToHTML(cols.bold.red('x'), { mode: 'class' });
+		expect(classes.html).toBe('<span class="mtxt-bold mtxt-red">x</span>');
+	});
+
+	it('should render hex and bgHex nodes', () => {
+		const result = renderToHTML(bgHex('#333')(hex('#ff0000')('x')));
+		expect(result.html).toBe(
+			'<span style="background-color: #333;"><span style="color: #ff0000;">x</span></span>',
+		);
+	});
+
+	it('should render class names and a stylesheet in class mode', () => {
+		const result = renderToHTML(
+			cols.red('a') + hex('#00ff00')('b') + cols.red('c'),
+			{ mode: 'class' },
+		);
+		expect(result.html).toBe(
+			'<span class="mtxt-red">a</span>' +
+				'<span class="mtxt-hex-00ff00">b</span>' +
+				'<span class="mtxt-red">c</span>',
+		);
+		expect(result.css).toBe(
+			'.mtxt-red { color: red; }\n.mtxt-hex-00ff00 { color: #00ff00; }',
+		);
+	});
+
+	it('should honor a custom class prefix', () => {
+		const result = renderToHTML(cols.bold('a'), {
+			mode: 'class',
+			classPrefix: 'report',
+		});
+		expect(result.html).toBe('<span class="report-bold">a</span>');
+		expect(result.css).toBe('.report-bold { font-weight: bold; }');
+	});
+
+	it('should drop the wrapper of unknown styles', () => {
+		const result = renderToHTML('[mtxt-style[[nope]]]x[[/mtxt-style]]');
+		expect(result.html).toBe('x');
+	});
+
+	it('should not take object keys for styles', () => {
+		for (const style of ['constructor', 'toString', 'hasOwnProperty']) {
+			const text = `[mtxt-style[[${style}]]]x[[/mtxt-style]]`;
+			expect(renderToHTML(text).html).toBe('x');
+			expect(renderToBrowser(text)).toEqual(['%cx', '']);
+		}
+	});
+});
@@ -0,0 +1,146 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { cols, gradient, hex } from '../src/lib/cols/colorPack';
+import {
+	currentPalette,
+	registerPalette,
+	registerStyle,
+	usePalette,
+} from '../src/lib/cols/styleAliases';
+import {
+	pseudoLangToTree,
+	PseudoLangSyntaxError,
+} from '../src/lib/lang/pseudoParser';
+import {
+	createRenderer,
+	renderToBrowser,
+	renderToHTML,
+} from '../src/lib/lang/render';
+
+declare module '../src/lib/cols/styleAliases' {
+	interface StyleAliases {
+		brand: StyleAlias;
+		banner: StyleAlias;
+	}
+}
+
+const renderAnsi = createRenderer({
+	mode: 'nodelike',
+	colorLevel: 'truecolor',
+});
+
+describe('named styles', () => {
+	afterEach(() => usePalette('dark'));
+
+	it('should keep the name in the markup', () => {
+		expect(cols.error('failed')).toBe(
+			'[mtxt-style[[error]]]failed[[/mtxt-style]]',
+		);
+		expect(cols.bold.warn('careful')).toBe(
+			'[mtxt-style[[warn bold]]]careful[[/mtxt-style]]',
+		);
+	});
+
+	it('should be resolved by every renderer', () => {
+		expect(pseudoLangToTree(cols.error('x'))).toEqual([
+			{
+				type: 'styled',
+				styles: ['redBright', 'bold'],
+				children: [{ type: 'text', content: 'x' }],
+			},
+		]);
+		expect(renderAnsi(cols.warn('x'))).toEqual(renderAnsi(hex('#f5a623')('x')));
+		expect(renderToBrowser(cols.muted('x'))).toEqual(['%cx', 'color: gray;']);
+		expect(renderToHTML(cols.error('x')).html).toBe(
+			renderToHTML(cols.bold.redBright('x')).html,
+		);
+	});
+
+	it('should follow the active palette', () => {
+		const text = cols.warn('careful');
+		usePalette('light');
+		expect(currentPalette()).toBe('light');
+		expect(renderAnsi(text)).toEqual(renderAnsi(hex('#b36b00')('careful')));
+
+		usePalette('highContrast');
+		expect(pseudoLangToTree(text)).toEqual(
+			pseudoLangToTree(cols.bold.black.bgYellowBright('careful')),
+		);
+		expect(() => usePalette('nope')).toThrow('Unknown palette "nope"');
+	});
+
+	it('should register styles for every palette', () => {
+		registerStyle('brand', ['hex#6c5ce7', 'error']);
+		expect(pseudoLangToTree(cols.brand('x'))).toEqual(
+			pseudoLangToTree(
+				'[mtxt-style[[hex#6c5ce7 redBright bold]]]x[[/mtxt-style]]',
+			),
+		);
+
+		// Palettes outlive the test, hence names no other test uses
+		registerPalette('brandLight', { brand: '#341f97' });
+		usePalette('brandLight');
+		expect(renderAnsi(cols.brand('x'))).toEqual(
+			renderAnsi(hex('#341f97')('x')),
+		);
+	});
+
+	it('should apply styling functions to the content', () => {
+		registerStyle('banner', (text) =>
+			cols.bold(gradient(['#ff0000', '#0000ff'])(text)),
+		);
+		const text = cols.banner(`ab${cols.italic('c')}`);
+
+		expect(renderAnsi(text)).toEqual(
+			renderAnsi(
+				cols.bold(gradient(['#ff0000', '#0000ff'])(`ab${cols.italic('c')}`)),
+			),
+		);
+	});
+
+	it('should reject invalid definitions', () => {
+		expect(() => registerStyle('red', ['bold'])).toThrow(
+			'"red" is a built-in style',
+		);
+		for (const name of [
+			'call',
+			'apply',
+			'bind',
+			'name',
+			'length',
+			'prototype',
+		]) {
+			expect(() => registerStyle(name, ['bold'])).toThrow(
+				`"${name}" is reserved by style chains`,
+			);
+		}
+		expect(() => registerPalette('reserved', { bind: '#fff' })).toThrow(
+			'"bind" is reserved by style chains',
+		);
+		expect(() => registerStyle('oops', ['bolt'])).toThrow(
+			'Unknown style "bolt"',
+		);
+		expect(() => registerStyle('oops', '#zzz')).toThrow(
+			'Malformed hex color "#zzz"',
+		);
+	});
+
+	it('should report unknown names through the diagnostics', () => {
+		registerPalette('diagnosticsPrint', { error: ['underline'] });
+		usePalette('diagnosticsPrint');
+
+		const { diagnostics } = pseudoLangToTree(
+			`${cols.error('a')} [mtxt-style[[eror]]]b[[/mtxt-style]] ${cols.warn('c')}`,
+			{ diagnostics: true },
+		);
+		expect(diagnostics.map((d) => [d.kind, d.message])).toEqual([
+			['unknown-style', 'Unknown style "eror"'],
+			[
+				'unknown-style',
+				'Style "warn" is not defined in the "diagnosticsPrint" palette',
+			],
+		]);
+		expect(() => pseudoLangToTree(cols.warn('c'), { strict: true })).toThrow(
+			PseudoLangSyntaxError,
+		);
+	});
+});
@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import { cols, hex } from '../src/lib/cols/colorPack';
+import { pseudoLangToTree } from '../src/lib/lang/pseudoParser';
+import { code, registerLang } from '../src/lib/code/code';
+import javascript from 'highlight.js/lib/languages/javascript';
+import {
+	centerStyled,
+	padStyled,
+	sliceStyled,
+	splitStyledLines,
+	truncateStyled,
+	wrapStyled,
+} from '../src/lib/utils/styledText';
+import { stripStyles, visibleWidth } from '../src/lib/utils/visibleText';
+import { writeSync } from '../src/lib/write/writeExtends';
+
+const balanced = (text: string) =>
+	pseudoLangToTree(text, { diagnostics: true }).diagnostics.length === 0;
+
+describe('style-aware text operations', () => {
+	it('should wrap between words and reopen styles', () => {
+		const output = wrapStyled(cols.blue('lorem ipsum dolor'), 11);
+		expect(output).toBe(
+			'[mtxt-style[[blue]]]lorem ipsum[[/mtxt-style]]\n' +
+				'[mtxt-style[[blue]]]dolor[[/mtxt-style]]',
+		);
+	});
+
+	it('should wrap nested styles and keep them balanced', () => {
+		const text = `a ${cols.bold(`b ${hex('#f00')('c d')} e`)} f`;
+		const lines = wrapStyled(text, 3).split('\n');
+		expect(lines.map(stripStyles)).toEqual(['a b', 'c d', 'e f']);
+		expect(lines.every(balanced)).toBe(true);
+		expect(lines[1]).toBe(
+			'[mtxt-style[[bold]]][mtxt-style[[hex#f00]]]c d[[/mtxt-style]][[/mtxt-style]]',
+		);
+	});
+
+	it('should break words longer than the width', () => {
+		expect(wrapStyled('abcdefg hi', 3).split('\n')).toEqual([
+			'abc',
+			'def',
+			'g',
+			'hi',
+		]);
+	});
+
+	it('should wrap long lines without slowing down', () => {
+		// Slicing every wrapped line from the whole line took seconds here
+		const text = cols.red('*a '.repeat(3000));
+		const lines = wrapStyled(text, 80).split('\n');
+		expect(lines).toHaveLength(112);
+		expect(lines[0]).toBe(cols.red('*a '.repeat(27).trimEnd()));
+		expect(lines.map(stripStyles).join(' ')).toBe('*a '.repeat(3000).trimEnd());
+	});
+
+	it('should keep existing line breaks', () => {
+		expect(wrapStyled('a\n\nb', 5)).toBe('a\n\nb');
+	});
+
+	it('should wrap code output', () => {
+		registerLang('js', javascript);
+		const output = code({
+			lang: 'js',
+			content: 'const answer = computeTheAnswer(42);',
+		});
+		const wrapped = wrapStyled(output, 12);
+		expect(stripStyles(wrapped).replaceAll('\n', ' ')).toBe(
+			'const answer = computeTheAn swer(42);',
+		);
+		expect(wrapped.split('\n').every(balanced)).toBe(true);
+	});
+
+	it('should truncate with an ellipsis', () => {
+		const output = truncateStyled(cols.red('abcdef'), 4);
+		expect(output).toBe('[mtxt-style[[red]]]abc[[/mtxt-style]]…');
+		expect(truncateStyled('abc', 3)).toBe('abc');
+		expect(truncateStyled('abcdef', 4, '...')).toBe('a...');
+		expect(truncateStyled('漢字漢字', 5)).toBe('漢字…');
+	});
+
+	it('should pad and center on the visible width', () => {
+		expect(padStyled(cols.red('ab'), 4)).toBe(`${cols.red('ab')}  `);
+		expect(padStyled('ab', 4, 'right')).toBe('  ab');
+		expect(centerStyled('ab', 6)).toBe('  ab  ');
+		expect(padStyled('a\nbcd', 3, 'right')).toBe('  a\nbcd');
+	});
+
+	it('should slice visible cells', () => {
+		const text = `ab${cols.green('cdef')}gh`;
+		expect(sliceStyled(text, 3, 7)).toBe(
+			'[mtxt-style[[green]]]def[[/mtxt-style]]g',
+		);
+		expect(sliceStyled(text, 6)).toBe('gh');
+		expect(sliceStyled(text, 0, 0)).toBe('');
+	});
+
+	it('should put each character on one side of a cut', () => {
+		const text = `a\u200b${cols.red('b\u0301\u200bc')}\u200bd`;
+		for (let cut = 0; cut <= 4; cut++) {
+			const joined = sliceStyled(text, 0, cut) + sliceStyled(text, cut);
+			expect(stripStyles(joined)).toBe(stripStyles(text));
+		}
+		expect(sliceStyled('a\u200bb', 1)).toBe('\u200bb');
+		expect(sliceStyled('a\u200bb', 0, 1)).toBe('a');
+	});
+
+	it('should lay out tabs as four spaces', () => {
+		expect(visibleWidth('\tx')).toBe(5);
+		expect(sliceStyled('a\tb', 1, 3)).toBe('  ');
+		expect(padStyled(cols.red('\ta'), 6)).toBe(`${cols.red('    a')} `);
+		expect(wrapStyled('a\tb c', 6).split('\n')).toEqual(['a    b', 'c']);
+		expect(truncateStyled('\tabc', 6)).toBe('    a…');
+	});
+
+	it('should keep escaped text escaped', () => {
+		const text = cols.red.raw('[a] [b]');
+		const lines = wrapStyled(text, 3).split('\n');
+		expect(lines.map(stripStyles)).toEqual(['[a]', '[b]']);
+		expect(sliceStyled(text, 1, 2)).toBe('[mtxt-style[[red]]]a[[/mtxt-style]]');
+	});
+
+	it('should split lines and balance tags', () => {
+		expect(splitStyledLines(cols.red('a\nb'))).toEqual([
+			'[mtxt-style[[red]]]a[[/mtxt-style]]',
+			'[mtxt-style[[red]]]b[[/mtxt-style]]',
+		]);
+	});
+
+	it('should wrap pushed lines from the write context', () => {
+		const output = writeSync(({ pretty, push }) => {
+			push('not wrapped at all');
+			pretty.wrap(8);
+			push(cols.red('wrapped from here'));
+			pretty.wrap(false);
+			push('not wrapped again');
+		});
+		expect(stripStyles(output).split('\n')).toEqual([
+			'not wrapped at all',
+			'wrapped',
+			'from',
+			'here',
+			'not wrapped again',
+		]);
+	});
+});
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { cols, hex } from '../src/lib/cols/colorPack';
+import { pseudoLangToTree } from '../src/lib/lang/pseudoParser';
+import { table } from '../src/lib/utils/table';
+import { stripStyles, visibleWidth } from '../src/lib/utils/visibleText';
+import { writeSync } from '../src/lib/write/writeExtends';
+
+const plain = (output: string) => stripStyles(output).split('\n');
+
+describe('table', () => {
+	it('should lay out object rows with a header', () => {
+		const output = table([
+			{ name: 'api', status: 'up' },
+			{ name: 'worker', status: 'down' },
+		]);
+		expect(plain(output)).toEqual([
+			'┌────────┬────────┐',
+			'│ name   │ status │',
+			'├────────┼────────┤',
+			'│ api    │ up     │',
+			'│ worker │ down   │',
+			'└────────┴────────┘',
+		]);
+	});
+
+	it('should lay out array rows without a header', () => {
+		const output = table(
+			[
+				['a', 'bb'],
+				['ccc', 'd'],
+			],
+			{ border: 'ascii' },
+		);
+		expect(plain(output)).toEqual([
+			'+-----+----+',
+			'| a   | bb |',
+			'| ccc | d  |',
+			'+-----+----+',
+		]);
+	});
+
+	it('should use string columns as headers of array rows', () => {
+		const output = table([['1', '2']], { columns: ['x', 'y'], border: 'none' });
+		expect(plain(output)).toEqual([' x  y ', ' 1  2 ']);
+	});
+
+	it('should support every border preset', () => {
+		const data = [['a']];
+		expect(plain(table(data, { border: 'double' }))[0]).toBe('╔═══╗');
+		expect(plain(table(data, { border: 'rounded' }))[0]).toBe('╭───╮');
+		expect(plain(table(data, { border: 'rounded' }))[2]).toBe('╰───╯');
+	});
+
+	it('should align columns', () => {
+		const output = table([['1'], ['100']], {
+			columns: [{ header: 'n', align: 'right' }],
+			border: 'none',
+		});
+		expect(plain(output)).toEqual(['   n ', '   1 ', ' 100 ']);
+		const centered = table([['a'], ['abc']], {
+			align: 'center',
+			border: 'none',
+		});
+		expect(plain(centered)).toEqual(['  a  ', ' abc ']);
+	});
+
+	it('should measure styled and wide cells on their visible width', () => {
+		const output = table(
+			[
+				[cols.red.bold('ok'), hex('#888')('漢字')],
+				['long', 'x'],
+			],
+			{ border: 'ascii' },
+		);
+		const lines = plain(output);
+		expect(lines[1]).toBe('| ok   | 漢字 |');
+		expect(lines[2]).toBe('| long | x    |');
+		expect(new Set(lines.map(visibleWidth)).size).toBe(1);
+	});
+
+	it('should wrap cells wider than their max width', () => {
+		const output = table([['the quick brown fox']], {
+			maxWidth: 9,
+			border: 'ascii',
+		});
+		expect(plain(output)).toEqual([
+			'+-----------+',
+			'| the quick |',
+			'| brown fox |',
+			'+-----------+',
+		]);
+	});
+
+	it('should cut cells with an ellipsis', () => {
+		const output = table([[cols.green('abcdefgh')]], {
+			columns: [{ maxWidth: 5, overflow: 'ellipsis' }],
+			border: 'none',
+		});
+		expect(plain(output)).toEqual([' abcd… ']);
+		expect(pseudoLangToTree(output, { diagnostics: true }).diagnostics).toEqual(
+			[],
+		);
+	});
+
+	it('should keep styles balanced in wrapped cells', () => {
+		const output = table([[cols.blue('aaa bbb')]], {
+			maxWidth: 3,
+			border: 'none',
+		});
+		expect(output).toContain('[mtxt-style[[blue]]]aaa[[/mtxt-style]]');
+		expect(output).toContain('[mtxt-style[[blue]]]bbb[[/mtxt-style]]');
+	});
+
+	it('should style the header and the border', () => {
+		const output = table([{ a: '1' }], {
+			headerStyle: cols.underline,
+			borderColor: 'blue',
+		});
+		expect(output).toContain('[mtxt-style[[underline]]]a[[/mtxt-style]]');
+		expect(output).toContain('[mtxt-style[[blue]]]┌───┐[[/mtxt-style]]');
+	});
+
+	it('should be usable from the write context', () => {
+		const output = writeSync(({ pretty }) => {
+			pretty.table([['a']], { border: 'ascii' });
+		});
+		expect(plain(output)).toEqual(['+---+', '| a |', '+---+']);
+	});
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { cols, hex, t } from '../src/lib/cols/colorPack';
+import { pseudoLangToTree } from '../src/lib/lang/pseudoParser';
+import { compileTemplate } from '../src/lib/lang/template';
+import { stripStyles } from '../src/lib/utils/visibleText';
+
+describe('t', () => {
+	it('should compile style blocks', () => {
+		const ms = 12;
+		expect(t`Build {green.bold passed} in {hex#888 ${ms}ms}`).toBe(
+			`Build ${cols.green.bold('passed')} in ${hex('#888')(`${ms}ms`)}`,
+		);
+		expect(t`{error failed}`).toBe(cols.error('failed'));
+	});
+
+	it('should nest blocks', () => {
+		expect(t`{bold a {red b {underline c}} d}`).toBe(
+			cols.bold(`a ${cols.red(`b ${cols.underline('c')}`)} d`),
+		);
+	});
+
+	it('should escape the template and its values', () => {
+		const input = '[mtxt-style[[red]]]x[[/mtxt-style]] {bold y}';
+		const output = t`user: {cyan ${input}} [mtxt-style[[bold]]]`;
+
+		expect(pseudoLangToTree(output)).toEqual([
+			{ type: 'text', content: 'user: ' },
+			{
+				type: 'styled',
+				styles: ['cyan'],
+				children: [{ type: 'text', content: input }],
+			},
+			{ type: 'text', content: ' [mtxt-style[[bold]]]' },
+		]);
+	});
+
+	it('should keep braces that do not open a block', () => {
+		expect(stripStyles(t`{ a: ${1} } {} {0 items} done}`)).toBe(
+			'{ a: 1 } {} {0 items} done}',
+		);
+	});
+
+	it('should keep escaped braces as text', () => {
+		expect(t`{red a \} b}`).toBe(cols.red('a } b'));
+		expect(t`\{bold x} {bold \{y\}}`).toBe(`{bold x} ${cols.bold('{y}')}`);
+		expect(t`\u{1F600}\n\x41\\{red a \}}`).toBe(
+			`\u{1F600}\nA\\${cols.red('a }')}`,
+		);
+		expect(cols.green`{bold \}}`).toBe(cols.green(cols.bold('}')));
+		expect(compileTemplate(['{red a \\} b}'])).toBe(cols.red('a } b'));
+	});
+
+	it('should style the whole template when chained', () => {
+		expect(t.bold`Hello {cyan ${'<name>'}}`).toBe(
+			cols.bold(`Hello ${cols.cyan('<name>')}`),
+		);
+		expect(cols.red.underline`a ${2}`).toBe(cols.red.underline('a 2'));
+	});
+
+	it('should reject unclosed blocks', () => {
+		expect(() => compileTemplate(['{green.bold passed'])).toThrow(
+			new SyntaxError('Style block "{green.bold" is never closed'),
+		);
+	});
+
+	it('should reject unknown styles and malformed colors', () => {
+		expect(() => t`{gren typo} ok`).toThrow(
+			new SyntaxError('Unknown style "gren" in style block "{gren"'),
+		);
+		expect(() => t`{bold.hex#zz x}`).toThrow(
+			new SyntaxError(
+				'Malformed hex color "hex#zz" in style block "{bold.hex#zz"',
+			),
+		);
+		expect(() => t`{toString x}`).toThrow(SyntaxError);
+	});
+});
@@ -0,0 +1,203 @@
+import { describe, expect, it } from 'vitest';
+import javascript from 'highlight.js/lib/languages/javascript';
+import { code, registerLang } from '../src/lib/code/code';
+import {
+	getTheme,
+	registerTheme,
+	ThemeRegistry,
+} from '../src/lib/code/regitery';
+import {
+	themeFromCSS,
+	themeFromTextMate,
+	validateTheme,
+} from '../src/lib/code/themes';
+import { bgHex, cols, hex } from '../src/lib/cols/colorPack';
+
+const apply = (fns: ((...x: string[]) => string)[], text: string) =>
+	fns.reduce((acc, fn) => fn(acc), text);
+
+describe('registerTheme', () => {
+	it('should make a theme usable by name', () => {
+		registerLang('js', javascript);
+		registerTheme('plain-keywords', {
+			name: 'plain-keywords',
+			styles: { '.hljs-keyword': [cols.magenta] },
+		});
+		expect('plain-keywords' in ThemeRegistry).toBe(true);
+
+		const output = code({
+			lang: 'js',
+			content: 'let a',
+			theme: 'plain-keywords',
+		});
+		expect(output).toBe(`${cols.magenta('let')} a`);
+		expect(() => code({ lang: 'js', content: 'x', theme: 'nope' })).toThrow(
+			'Unknown theme "nope"',
+		);
+	});
+
+	it('should keep names of the object prototype out of the registry', () => {
+		const scheme = { name: 'x', styles: {} };
+		expect(() => registerTheme('__proto__', scheme)).toThrow(
+			'Reserved theme name "__proto__"',
+		);
+		expect(Object.getPrototypeOf(ThemeRegistry)).toBe(null);
+		expect(() => code({ lang: 'js', content: 'x', theme: 'toString' })).toThrow(
+			'Unknown theme "toString"',
+		);
+
+		registerTheme('constructor', scheme);
+		expect(getTheme('constructor')).toBe(scheme);
+	});
+});
+
+describe('themeFromCSS', () => {
+	it('should convert highlight.js CSS rules', () => {
+		const scheme = themeFromCSS(
+			`
+			/* comment { color: red } */
+			pre code.hljs { display: block; padding: 1em }
+			.hljs { color: #c9d1d9; background: #0d1117 }
+			.hljs-keyword,
+			.hljs-meta .hljs-keyword { color: #ff7b72 }
+			.hljs-string { color: rgba(165, 214, 255, 0.8) }
+			.hljs-section { color: #1f6feb; font-weight: bold }
+			.hljs-emphasis { font-style: italic; text-decoration: underline }
+			.hljs-keyword { background-color: #11223344 !important }
+			`,
+			'github',
+		);
+
+		expect(scheme.name).toBe('github');
+		expect(Object.keys(scheme.styles)).toEqual([
+			'.hljs',
+			'.hljs-keyword',
+			'.hljs-meta .hljs-keyword',
+			'.hljs-string',
+			'.hljs-section',
+			'.hljs-emphasis',
+		]);
+		expect(apply(scheme.styles['.hljs-keyword'], 'x')).toBe(
+			apply([hex('#ff7b72'), bgHex('#112233')], 'x'),
+		);
+		expect(apply(scheme.styles['.hljs-string'], 'x')).toBe(hex('#a5d6ff')('x'));
+		expect(apply(scheme.styles['.hljs-section'], 'x')).toBe(
+			cols.bold(hex('#1f6feb')('x')),
+		);
+		expect(apply(scheme.styles['.hljs-emphasis'], 'x')).toBe(
+			cols.underline(cols.italic('x')),
+		);
+	});
+
+	it('should skip values that are not colors', () => {
+		const scheme = themeFromCSS(
+			'.hljs-title { color: constructor } .hljs-type { color: toString; font-weight: bold }',
+		);
+		expect(Object.keys(scheme.styles)).toEqual(['.hljs-type']);
+	});
+
+	it('should skip at-rules and the rules they hold', () => {
+		const scheme = themeFromCSS(`
+			@import url("base.css");
+			.hljs-keyword { color: #ff0000 }
+			@media (prefers-color-scheme: light) {
+				.hljs-keyword { color: #0000ff }
+				.hljs-string { color: #00ff00 }
+			}
+			@supports (color: red) { .hljs-title { color: red } }
+			@font-face { font-family: x; color: red }
+			.hljs-title, constructor { font-weight: bold }
+		`);
+
+		expect(Object.keys(scheme.styles)).toEqual([
+			'.hljs-keyword',
+			'.hljs-title',
+			'constructor',
+		]);
+		expect(apply(scheme.styles['.hljs-keyword'], 'x')).toBe(
+			hex('#ff0000')('x'),
+		);
+	});
+});
+
+describe('themeFromTextMate', () => {
+	it('should map TextMate scopes to highlight.js tokens', () => {
+		const scheme = themeFromTextMate(
+			JSON.stringify({
+				name: 'Company Dark',
+				colors: { 'editor.foreground': '#dddddd', 'editor.background': '#111' },
+				tokenColors: [
+					{ settings: { foreground: '#ffffff' } },
+					{
+						scope: 'comment',
+						settings: { foreground: '#6a737d', fontStyle: 'italic' },
+					},
+					{
+						scope: ['keyword', 'storage.type'],
+						settings: { foreground: '#f97583' },
+					},
+					{ scope: 'keyword.operator', settings: { foreground: '#79b8ff' } },
+					{
+						scope: 'string, string.regexp',
+						settings: { foreground: '#9ecbffcc' },
+					},
+					{ scope: 'source.js string', settings: { foreground: '#000000' } },
+				],
+			}),
+		);
+
+		expect(scheme.name).toBe('Company Dark');
+		expect(apply(scheme.styles['.hljs-comment'], 'x')).toBe(
+			apply([hex('#6a737d'), cols.italic], 'x'),
+		);
+		expect(apply(scheme.styles['.hljs-keyword'], 'x')).toBe(
+			hex('#f97583')('x'),
+		);
+		expect(apply(scheme.styles['.hljs-operator'], 'x')).toBe(
+			hex('#79b8ff')('x'),
+		);
+		expect(apply(scheme.styles['.hljs-string'], 'x')).toBe(hex('#9ecbff')('x'));
+		expect(apply(scheme.styles['.hljs-type'], 'x')).toBe(hex('#f97583')('x'));
+		expect(scheme.styles['.hljs-number']).toBeUndefined();
+		expect(scheme.styles['.hljs']).toBeUndefined();
+		expect(validateTheme(scheme)).toEqual([]);
+	});
+});
+
+describe('validateTheme', () => {
+	it('should report selectors that never match', () => {
+		const issues = validateTheme({
+			name: 'broken',
+			styles: {
+				'.hljs-keyword': [],
+				'.hljs-title.class_': [],
+				'.hljs-meta > .hljs-string, .hljs-function .hljs-title': [],
+				'.hljs-keywrd, .hljs-keyword': [],
+				'.hljs-keywrd': [],
+				'pre code.hljs': [],
+				'.hljs .hljs-keyword': [],
+				'div > .hljs-keyword': [],
+				'.hljs-string::selection': [],
+			},
+		});
+		expect(issues).toEqual([
+			{
+				selector: '.hljs-keywrd',
+				reason: 'highlight.js never emits the class "hljs-keywrd"',
+			},
+			{
+				selector: 'pre code.hljs',
+				reason: 'code() only styles tokens, not the .hljs root',
+			},
+			{
+				selector: 'div > .hljs-keyword',
+				reason: 'code() output has no "div" element',
+			},
+			{
+				selector: '.hljs-string::selection',
+				reason:
+					'only element names, classes, descendant and child combinators are supported',
+			},
+		]);
+	});
+});
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { cols } from '../src/lib/cols/colorPack';
+import { tree, TreeNode } from '../src/lib/utils/tree';
+import { stripStyles } from '../src/lib/utils/visibleText';
+import { writeSync } from '../src/lib/write/writeExtends';
+
+const plain = (output: string) => stripStyles(output).split('\n');
+
+const project: TreeNode = {
+	label: 'project',
+	children: [
+		{
+			label: 'src',
+			children: [
+				{ label: 'main.ts' },
+				{ label: 'lib', children: [{ label: 'tree.ts' }] },
+			],
+		},
+		{ label: 'package.json' },
+	],
+};
+
+describe('tree', () => {
+	it('should draw unicode guides', () => {
+		expect(plain(tree(project))).toEqual([
+			'project',
+			'├── src',
+			'│   ├── main.ts',
+			'│   └── lib',
+			'│       └── tree.ts',
+			'└── package.json',
+		]);
+	});
+
+	it('should draw ascii guides', () => {
+		expect(plain(tree(project, { guides: 'ascii' }))).toEqual([
+			'project',
+			'|-- src',
+			'|   |-- main.ts',
+			'|   `-- lib',
+			'|       `-- tree.ts',
+			'`-- package.json',
+		]);
+	});
+
+	it('should collapse branches deeper than the depth limit', () => {
+		expect(plain(tree(project, { maxDepth: 1 }))).toEqual([
+			'project',
+			'├── src …',
+			'└── package.json',
+		]);
+	});
+
+	it('should collapse branches marked as collapsed', () => {
+		const output = tree(
+			{ label: 'a', children: [{ label: 'b' }], collapsed: true },
+			{ collapsedMarker: '[+]' },
+		);
+		expect(plain(output)).toEqual(['a [+]']);
+	});
+
+	it('should style labels and guides', () => {
+		const output = tree(
+			{
+				label: 'root',
+				style: 'bold',
+				children: [{ label: 'leaf', style: cols.green }],
+			},
+			{ guideColor: 'blue' },
+		);
+		expect(output.split('\n')).toEqual([
+			'[mtxt-style[[bold]]]root[[/mtxt-style]]',
+			'[mtxt-style[[blue]]]└── [[/mtxt-style]][mtxt-style[[green]]]leaf[[/mtxt-style]]',
+		]);
+	});
+
+	it('should align multi-line labels and print several roots', () => {
+		const output = tree([
+			{ label: 'a', children: [{ label: 'b\nc' }, { label: 'd' }] },
+			{ label: 'e' },
+		]);
+		expect(plain(output)).toEqual(['a', '├── b', '│   c', '└── d', 'e']);
+	});
+
+	it('should be usable from the write context', () => {
+		const output = writeSync(({ pretty }) => {
+			pretty.tree({ label: 'a', children: [{ label: 'b' }] });
+		});
+		expect(plain(output)).toEqual(['a', '└── b']);
+	});
+});
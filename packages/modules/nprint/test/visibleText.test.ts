@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { cols, hex } from '../src/lib/cols/colorPack';
+import { renderToNodeLike } from '../src/lib/lang/render';
+import { hr } from '../src/lib/utils/horizontalRule';
+import { stripStyles, visibleWidth } from '../src/lib/utils/visibleText';
+
+describe('stripStyles', () => {
+	it('should remove pseudo-language tags', () => {
+		const input = cols.red('Hello ') + hex('#ff0000').bold('world');
+		expect(stripStyles(input)).toBe('Hello world');
+	});
+
+	it('should remove ANSI escape sequences', () => {
+		expect(stripStyles('\u001b[31mred\u001b[39m \u001b[1mbold\u001b[22m')).toBe(
+			'red bold',
+		);
+		expect(
+			stripStyles('\u001b]8;;https://example.com\u0007link\u001b]8;;\u0007'),
+		).toBe('link');
+	});
+
+	it('should remove styles from rendered output', () => {
+		const [rendered] = renderToNodeLike(cols.green.underline('ok'));
+		expect(stripStyles(rendered)).toBe('ok');
+	});
+});
+
+describe('visibleWidth', () => {
+	it('should ignore styling', () => {
+		expect(visibleWidth(cols.bold.red('abc'))).toBe(3);
+		expect(visibleWidth('\u001b[31mabc\u001b[39m')).toBe(3);
+	});
+
+	it('should count wide CJK characters as two cells', () => {
+		expect(visibleWidth('漢字')).toBe(4);
+		expect(visibleWidth('ｈｉ')).toBe(4);
+		expect(visibleWidth('한글')).toBe(4);
+	});
+
+	it('should count emoji as two cells', () => {
+		expect(visibleWidth('🚀')).toBe(2);
+		expect(visibleWidth('👍🏽')).toBe(2);
+		expect(visibleWidth('👨‍👩‍👧')).toBe(2);
+		expect(visibleWidth('\u2764\uFE0F')).toBe(2);
+		expect(visibleWidth('🇫🇷')).toBe(2);
+	});
+
+	it('should count text-style symbols as one cell', () => {
+		expect(visibleWidth('\u{1F321}')).toBe(1);
+		expect(visibleWidth('\u{1F336}')).toBe(1);
+		expect(visibleWidth('\u{1F5A5}')).toBe(1);
+		expect(visibleWidth('\u{1F6E0}')).toBe(1);
+		expect(visibleWidth('\u{1F321}\uFE0F')).toBe(2);
+		expect(visibleWidth('\u{1F600}\u{1F32D}')).toBe(4);
+	});
+
+	it('should count combining marks and zero-width characters as zero', () => {
+		expect(visibleWidth('e\u0301')).toBe(1);
+		expect(visibleWidth('a\u200bb')).toBe(2);
+	});
+});
+
+describe('hr', () => {
+	it('should align wide and styled titles on their visible width', () => {
+		const rule = hr({ width: 20, title: cols.red('漢字'), char: '-' });
+		expect(visibleWidth(rule)).toBe(20);
+	});
+});